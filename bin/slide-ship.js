@@ -0,0 +1,257 @@
+#!/usr/bin/env node
+// Slide Ship command line.
+//
+//   slide-ship export slides.md --out dir/
+//
+// Builds the deck with Vite, serves the build locally and opens it in headless
+// Chrome with ?capture (see src/lib/export/SlideCapture.ts). Each slide is
+// captured as a PNG once it has settled, and manifest.json lists the images
+// with their slide titles. Chrome is driven over the DevTools protocol through
+// a pipe, so there are no extra dependencies - only a Chrome or Chromium
+// install, found on the PATH or given with --browser / CHROME_PATH.
+
+import { spawn } from 'node:child_process';
+import { copyFileSync, cpSync, existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { basename, delimiter, dirname, join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const ROOT = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+
+const USAGE = `Usage: slide-ship export <slides.md> [options]
+
+Options:
+  --out <dir>        Output directory (default: slide-images)
+  --browser <path>   Chrome or Chromium executable (default: $CHROME_PATH or the PATH)
+  --timeout <ms>     Time allowed for the deck to load (default: 30000)
+  -h, --help         Show this help`;
+
+const BROWSER_NAMES = ['google-chrome', 'google-chrome-stable', 'chromium', 'chromium-browser', 'chrome'];
+const BROWSER_PATHS = [
+  '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome',
+  '/Applications/Chromium.app/Contents/MacOS/Chromium',
+  'C:\\Program Files\\Google\\Chrome\\Application\\chrome.exe',
+];
+
+function fail(message) {
+  console.error(`slide-ship: ${message}`);
+  process.exit(1);
+}
+
+function parseArgs(argv) {
+  const args = { command: null, input: null, out: 'slide-images', browser: process.env.CHROME_PATH, timeout: 30000 };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '-h' || arg === '--help') {
+      console.log(USAGE);
+      process.exit(0);
+    } else if (arg === '--out') {
+      args.out = argv[++i];
+    } else if (arg === '--browser') {
+      args.browser = argv[++i];
+    } else if (arg === '--timeout') {
+      args.timeout = parseInt(argv[++i], 10);
+    } else if (arg.startsWith('-')) {
+      fail(`unknown option ${arg}\n\n${USAGE}`);
+    } else if (!args.command) {
+      args.command = arg;
+    } else if (!args.input) {
+      args.input = arg;
+    } else {
+      fail(`unexpected argument ${arg}\n\n${USAGE}`);
+    }
+  }
+  if (args.command !== 'export' || !args.input || !args.out || !(args.timeout > 0)) {
+    fail(USAGE);
+  }
+  return args;
+}
+
+function findBrowser(explicit) {
+  if (explicit) {
+    if (!existsSync(explicit)) fail(`browser not found: ${explicit}`);
+    return explicit;
+  }
+  for (const dir of (process.env.PATH ?? '').split(delimiter)) {
+    for (const name of BROWSER_NAMES) {
+      const candidate = join(dir, name);
+      if (existsSync(candidate)) return candidate;
+    }
+  }
+  const installed = BROWSER_PATHS.find((path) => existsSync(path));
+  if (installed) return installed;
+  fail('no Chrome or Chromium found - install one or pass --browser <path>');
+}
+
+// DevTools protocol over --remote-debugging-pipe: Chrome reads commands from
+// fd 3 and writes responses and events to fd 4, each message NUL-terminated.
+class DevToolsPipe {
+  constructor(input, output) {
+    this.input = input;
+    this.nextId = 1;
+    this.pending = new Map();
+    this.buffer = '';
+    this.stderr = '';
+
+    output.setEncoding('utf8');
+    output.on('data', (chunk) => {
+      this.buffer += chunk;
+      let end;
+      while ((end = this.buffer.indexOf('\0')) !== -1) {
+        const message = JSON.parse(this.buffer.slice(0, end));
+        this.buffer = this.buffer.slice(end + 1);
+        const request = this.pending.get(message.id);
+        if (!request) continue; // Events are not needed
+        this.pending.delete(message.id);
+        if (message.error) request.reject(new Error(`${request.method}: ${message.error.message}`));
+        else request.resolve(message.result);
+      }
+    });
+    output.on('error', () => {}); // Reported through 'close'
+    input.on('error', () => {});
+    output.on('close', () => {
+      for (const request of this.pending.values()) request.reject(new Error(this.closeReason()));
+      this.pending.clear();
+    });
+  }
+
+  // Chrome's own error output explains most launch failures
+  closeReason() {
+    return `the browser exited unexpectedly${this.stderr ? `:\n${this.stderr.trim()}` : ''}`;
+  }
+
+  send(method, params = {}, sessionId) {
+    const id = this.nextId++;
+    this.input.write(JSON.stringify({ id, method, params, sessionId }) + '\0');
+    return new Promise((resolve, reject) => this.pending.set(id, { method, resolve, reject }));
+  }
+}
+
+// Evaluate an expression in the page and return its (JSON) value
+async function evaluate(devtools, sessionId, expression) {
+  const { result, exceptionDetails } = await devtools.send(
+    'Runtime.evaluate',
+    { expression, awaitPromise: true, returnByValue: true },
+    sessionId
+  );
+  if (exceptionDetails) {
+    throw new Error(exceptionDetails.exception?.description ?? exceptionDetails.text);
+  }
+  return result.value;
+}
+
+async function waitForDeck(devtools, sessionId, timeout) {
+  const deadline = Date.now() + timeout;
+  while (Date.now() < deadline) {
+    if (await evaluate(devtools, sessionId, 'window.slideShipCapture !== undefined')) return;
+    await new Promise((resolve) => setTimeout(resolve, 250));
+  }
+  throw new Error(`the deck did not load within ${timeout} ms`);
+}
+
+// Images and other files next to the deck (e.g. ~/talk/images/) go into the
+// build the way public/ does. Files the build wrote win, and dependency and
+// VCS folders are left out.
+const SKIPPED_ASSETS = new Set(['node_modules', '.git']);
+
+function copyDeckAssets(deckDir, buildDir) {
+  if (deckDir === join(ROOT, 'public')) return; // Already copied by Vite
+  cpSync(deckDir, buildDir, {
+    recursive: true,
+    force: false,
+    filter: (source) => !SKIPPED_ASSETS.has(basename(source)),
+  });
+}
+
+async function exportImages(args) {
+  const input = resolve(args.input);
+  const out = resolve(args.out);
+  if (!existsSync(input)) fail(`file not found: ${args.input}`);
+  const browserPath = findBrowser(args.browser);
+
+  const { build, preview } = await import('vite');
+  const workDir = mkdtempSync(join(tmpdir(), 'slide-ship-'));
+  const buildDir = join(workDir, 'dist');
+  let server = null;
+  let browser = null;
+
+  try {
+    console.log('Building deck...');
+    await build({ root: ROOT, logLevel: 'warn', build: { outDir: buildDir, emptyOutDir: true } });
+    // The deck fetches slides.md next to index.html, and its images relative to it
+    copyDeckAssets(dirname(input), buildDir);
+    copyFileSync(input, join(buildDir, 'slides.md'));
+
+    server = await preview({
+      root: ROOT,
+      logLevel: 'warn',
+      build: { outDir: buildDir },
+      preview: { host: '127.0.0.1', port: 4173, open: false },
+    });
+    const url = server.resolvedUrls.local[0];
+
+    browser = spawn(
+      browserPath,
+      [
+        '--headless=new',
+        '--remote-debugging-pipe',
+        `--user-data-dir=${join(workDir, 'profile')}`,
+        '--no-first-run',
+        '--no-default-browser-check',
+        '--mute-audio',
+        '--hide-scrollbars',
+        '--enable-unsafe-swiftshader', // Software WebGL on machines without a GPU
+        // Chrome refuses to sandbox itself as root (containers, CI)
+        ...(process.getuid?.() === 0 ? ['--no-sandbox'] : []),
+        'about:blank',
+      ],
+      { stdio: ['ignore', 'ignore', 'pipe', 'pipe', 'pipe'] }
+    );
+    const launchError = new Promise((_, reject) => browser.once('error', reject));
+    const devtools = new DevToolsPipe(browser.stdio[3], browser.stdio[4]);
+    browser.stderr.setEncoding('utf8');
+    browser.stderr.on('data', (chunk) => (devtools.stderr = (devtools.stderr + chunk).slice(-2000)));
+
+    const { targetId } = await Promise.race([devtools.send('Target.createTarget', { url: 'about:blank' }), launchError]);
+    const { sessionId } = await devtools.send('Target.attachToTarget', { targetId, flatten: true });
+    await devtools.send('Page.navigate', { url: `${url}?capture` }, sessionId);
+    await waitForDeck(devtools, sessionId, args.timeout);
+
+    const deck = await evaluate(
+      devtools,
+      sessionId,
+      '({ title: slideShipCapture.title, width: slideShipCapture.width, height: slideShipCapture.height, slides: slideShipCapture.slides })'
+    );
+
+    mkdirSync(out, { recursive: true });
+    const digits = Math.max(2, String(deck.slides.length).length);
+    const slides = [];
+
+    for (const slide of deck.slides) {
+      const number = slide.index + 1;
+      const file = `slide-${String(number).padStart(digits, '0')}.png`;
+      const dataUrl = await evaluate(devtools, sessionId, `slideShipCapture.capture(${slide.index})`);
+      writeFileSync(join(out, file), Buffer.from(dataUrl.replace(/^data:image\/png;base64,/, ''), 'base64'));
+      slides.push({ number, id: slide.id, title: slide.title, file });
+      console.log(`  ${file}  ${slide.title}`);
+    }
+
+    const manifest = { title: deck.title, width: deck.width, height: deck.height, slides };
+    writeFileSync(join(out, 'manifest.json'), JSON.stringify(manifest, null, 2) + '\n');
+    console.log(`Exported ${slides.length} slides to ${args.out}`);
+
+    await devtools.send('Browser.close').catch(() => {});
+  } finally {
+    if (browser && browser.exitCode === null) {
+      // Let Chrome release its profile before the work directory is removed
+      const exited = new Promise((resolve) => browser.once('exit', resolve));
+      browser.kill();
+      await exited;
+    }
+    await server?.close();
+    rmSync(workDir, { recursive: true, force: true });
+  }
+}
+
+const args = parseArgs(process.argv.slice(2));
+exportImages(args).catch((error) => fail(error.message));
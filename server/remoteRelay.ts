@@ -0,0 +1,224 @@
+// Remote control relay for the Vite dev server.
+//
+// Every WebSocket client (the deck, phone clickers, followers) connects to
+// RELAY_PATH and each message is passed on to all other clients. The phone
+// clicker page is served from REMOTE_PATH. There are no dependencies and no
+// internet access is needed - start the dev server with --host to reach it
+// from other devices on the LAN.
+
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import type { IncomingMessage } from 'node:http';
+import type { Duplex } from 'node:stream';
+import type { Plugin, ViteDevServer } from 'vite';
+import { RELAY_PATH } from '../src/lib/remote/RemoteClient';
+
+const REMOTE_PATH = '/remote';
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+// Commands and follower state are a few hundred bytes; anything far bigger
+// is not from a deck or clicker, so the connection is closed
+const MAX_PAYLOAD = 64 * 1024;
+const CLOSE_PROTOCOL_ERROR = 1002;
+const CLOSE_TOO_BIG = 1009;
+
+// Encode a single unmasked frame (servers never mask)
+function encodeFrame(opcode: number, payload: Buffer): Buffer {
+  const length = payload.length;
+  let header: Buffer;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+// One connected client. Parses incoming frames from a raw socket.
+class RelayClient {
+  private socket: Duplex;
+  private buffer: Buffer = Buffer.alloc(0);
+  private fragments: Buffer[] = [];
+  private closed: boolean = false;
+  private onText: (client: RelayClient, text: string) => void;
+  private onClose: (client: RelayClient) => void;
+
+  constructor(
+    socket: Duplex,
+    onText: (client: RelayClient, text: string) => void,
+    onClose: (client: RelayClient) => void
+  ) {
+    this.socket = socket;
+    this.onText = onText;
+    this.onClose = onClose;
+
+    socket.on('data', (chunk: Buffer) => {
+      if (this.closed) return;
+      this.buffer = Buffer.concat([this.buffer, chunk]);
+      this.readFrames();
+    });
+    socket.on('close', () => this.onClose(this));
+    socket.on('error', () => socket.destroy());
+  }
+
+  private closeWith(code: number): void {
+    const reason = Buffer.alloc(2);
+    reason.writeUInt16BE(code);
+    this.buffer = Buffer.alloc(0);
+    this.fragments = [];
+    this.closed = true;
+    this.socket.end(encodeFrame(OPCODE_CLOSE, reason));
+  }
+
+  send(text: string): void {
+    if (!this.socket.writable) return;
+    this.socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(text, 'utf8')));
+  }
+
+  private readFrames(): void {
+    while (this.buffer.length >= 2) {
+      const fin = (this.buffer[0] & 0x80) !== 0;
+      const opcode = this.buffer[0] & 0x0f;
+      const masked = (this.buffer[1] & 0x80) !== 0;
+      let length = this.buffer[1] & 0x7f;
+      let offset = 2;
+
+      // Clients must mask every frame (RFC 6455, section 5.1)
+      if (!masked) {
+        this.closeWith(CLOSE_PROTOCOL_ERROR);
+        return;
+      }
+
+      if (length === 126) {
+        if (this.buffer.length < 4) return;
+        length = this.buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (this.buffer.length < 10) return;
+        length = Number(this.buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+
+      // Check the declared length before buffering the frame
+      const buffered = this.fragments.reduce((sum, fragment) => sum + fragment.length, 0);
+      if (length > MAX_PAYLOAD || buffered + length > MAX_PAYLOAD) {
+        this.closeWith(CLOSE_TOO_BIG);
+        return;
+      }
+
+      const maskOffset = offset;
+      offset += 4;
+      if (this.buffer.length < offset + length) return;
+
+      const payload = Buffer.from(this.buffer.subarray(offset, offset + length));
+      for (let i = 0; i < payload.length; i++) {
+        payload[i] ^= this.buffer[maskOffset + (i % 4)];
+      }
+      this.buffer = this.buffer.subarray(offset + length);
+
+      switch (opcode) {
+        case OPCODE_CLOSE:
+          this.closed = true;
+          this.buffer = Buffer.alloc(0);
+          this.fragments = [];
+          this.socket.end(encodeFrame(OPCODE_CLOSE, Buffer.alloc(0)));
+          return;
+        case OPCODE_PING:
+          this.socket.write(encodeFrame(OPCODE_PONG, payload));
+          break;
+        case OPCODE_PONG:
+          break;
+        default:
+          // Text frames and their continuations; binary frames are not used
+          this.fragments.push(payload);
+          if (fin) {
+            const message = Buffer.concat(this.fragments);
+            this.fragments = [];
+            this.onText(this, message.toString('utf8'));
+          }
+      }
+    }
+  }
+}
+
+function isSameHost(origin: string, host: string | undefined): boolean {
+  try {
+    return host !== undefined && new URL(origin).host === host;
+  } catch {
+    return false;
+  }
+}
+
+export function remoteRelay(): Plugin {
+  const clients = new Set<RelayClient>();
+
+  const relay = (sender: RelayClient, text: string) => {
+    for (const client of clients) {
+      if (client !== sender) client.send(text);
+    }
+  };
+
+  const handleUpgrade = (req: IncomingMessage, socket: Duplex) => {
+    if (new URL(req.url ?? '/', 'http://localhost').pathname !== RELAY_PATH) return;
+
+    // Browsers send the page's origin: only pages served by this dev server may
+    // connect, not any site open in the presenter's browser
+    const origin = req.headers.origin;
+    if (origin !== undefined && !isSameHost(origin, req.headers.host)) {
+      socket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+      return;
+    }
+
+    const key = req.headers['sec-websocket-key'];
+    if (typeof key !== 'string') {
+      socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+      return;
+    }
+
+    const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+    socket.write(
+      'HTTP/1.1 101 Switching Protocols\r\n' +
+        'Upgrade: websocket\r\n' +
+        'Connection: Upgrade\r\n' +
+        `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+    );
+    clients.add(new RelayClient(socket, relay, (client) => clients.delete(client)));
+  };
+
+  return {
+    name: 'slide-ship-remote-relay',
+    apply: 'serve',
+
+    configureServer(server: ViteDevServer) {
+      server.httpServer?.on('upgrade', handleUpgrade);
+
+      // Phone clicker page
+      server.middlewares.use(REMOTE_PATH, (_req, res) => {
+        res.setHeader('Content-Type', 'text/html; charset=utf-8');
+        res.end(readFileSync(new URL('./remote.html', import.meta.url), 'utf8'));
+      });
+
+      server.httpServer?.once('listening', () => {
+        // resolvedUrls is filled in right after the server starts listening
+        setTimeout(() => {
+          for (const url of server.resolvedUrls?.network ?? []) {
+            server.config.logger.info(`  Remote control: ${url.replace(/\/$/, '')}${REMOTE_PATH}`);
+          }
+        }, 100);
+      });
+    },
+  };
+}
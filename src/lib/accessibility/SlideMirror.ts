@@ -0,0 +1,199 @@
+import { Slide, SlideElement } from '../parser/MarkdownParser';
+import { stripRichText } from '../utils/richText';
+import { escapeHtml } from '../utils/html';
+
+// Off-screen HTML copy of the current slide for screen readers. The canvas is
+// opaque to assistive technology, so the slide's headings, lists, tables,
+// images and notes are mirrored as semantic markup, and slide changes and
+// revealed fragments are announced through a polite live region.
+
+// Visually hidden but still read by screen readers
+const VISUALLY_HIDDEN =
+  'position:absolute;width:1px;height:1px;margin:-1px;padding:0;border:0;' +
+  'overflow:hidden;clip:rect(0 0 0 0);clip-path:inset(50%);white-space:nowrap';
+
+// Phaser rich text ({b}/{i}) to emphasis markup
+function richTextToHtml(content: string): string {
+  return escapeHtml(content)
+    .replace(/\{b\}/g, '<strong>')
+    .replace(/\{\/b\}/g, '</strong>')
+    .replace(/\{i\}/g, '<em>')
+    .replace(/\{\/i\}/g, '</em>')
+    .replace(/\n/g, '<br>');
+}
+
+function plainText(content: string): string {
+  return stripRichText(content).replace(/\n/g, ' ');
+}
+
+// "dashboard-v2.png" -> "dashboard v2" when the markdown gives no alt text
+function altFromFilename(filename: string): string {
+  const name = filename.split('/').pop() ?? filename;
+  return name.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' ');
+}
+
+function isRevealed(item: { fragment?: number }, fragmentStep: number): boolean {
+  return (item.fragment ?? 0) <= fragmentStep;
+}
+
+export class SlideMirror {
+  private root: HTMLElement;
+  private content: HTMLElement;
+  private live: HTMLElement;
+  private index: number = -1;
+  private fragmentStep: number = 0;
+
+  constructor(parent: HTMLElement = document.body) {
+    this.root = document.createElement('div');
+    this.root.id = 'slide-mirror';
+    this.root.setAttribute('style', VISUALLY_HIDDEN);
+
+    this.content = document.createElement('section');
+    this.content.setAttribute('aria-roledescription', 'slide');
+    this.root.appendChild(this.content);
+
+    this.live = document.createElement('div');
+    this.live.setAttribute('aria-live', 'polite');
+    this.live.setAttribute('aria-atomic', 'true');
+    this.root.appendChild(this.live);
+
+    parent.appendChild(this.root);
+  }
+
+  // Mirror the slide on screen; only what has been revealed so far is included
+  update(slide: Slide, index: number, total: number, fragmentStep: number): void {
+    const title = this.getTitle(slide, index);
+    const changedSlide = index !== this.index;
+    const revealed = changedSlide ? [] : this.getRevealedSince(slide, this.fragmentStep, fragmentStep);
+
+    this.index = index;
+    this.fragmentStep = fragmentStep;
+
+    this.content.setAttribute('aria-label', `Slide ${index + 1} of ${total}: ${title}`);
+    this.content.innerHTML = this.renderSlide(slide, fragmentStep);
+
+    if (changedSlide) {
+      this.announce(`Slide ${index + 1} of ${total}: ${title}`);
+    } else if (revealed.length > 0) {
+      this.announce(revealed.join('. '));
+    }
+  }
+
+  private announce(message: string): void {
+    // Clearing first makes screen readers repeat an identical message
+    this.live.textContent = '';
+    window.setTimeout(() => {
+      this.live.textContent = message;
+    }, 50);
+  }
+
+  private getTitle(slide: Slide, index: number): string {
+    const heading = slide.elements.find((element) => element.type === 'heading');
+    return heading ? plainText(heading.content) : `Slide ${index + 1}`;
+  }
+
+  // Text of everything revealed between two fragment steps
+  private getRevealedSince(slide: Slide, from: number, to: number): string[] {
+    if (to <= from) return [];
+    const inRange = (item: { fragment?: number }) => item.fragment !== undefined && item.fragment > from && item.fragment <= to;
+    return [
+      ...slide.elements.filter(inRange).map((element) =>
+        element.type === 'table' ? 'Table' : plainText(element.content)
+      ),
+      ...slide.images.filter(inRange).map((image) => `Image: ${image.alt ?? altFromFilename(image.filename)}`),
+      ...slide.staticImages.filter(inRange).map((image) => `Image: ${image.alt ?? altFromFilename(image.filename)}`),
+      ...slide.portals.filter(inRange).map((portal) => `Portal to ${portal.label ?? portal.target}`),
+    ];
+  }
+
+  private renderSlide(slide: Slide, fragmentStep: number): string {
+    const html: string[] = [];
+    const elements = slide.elements.filter((element) => isRevealed(element, fragmentStep));
+
+    for (let i = 0; i < elements.length; i++) {
+      const element = elements[i];
+      if (element.type === 'bullet' || element.type === 'numbered') {
+        // Consecutive list items of the same kind form one list
+        const items: SlideElement[] = [];
+        while (i < elements.length && elements[i].type === element.type) {
+          items.push(elements[i++]);
+        }
+        i--;
+        html.push(this.renderList(items));
+      } else {
+        html.push(this.renderElement(element));
+      }
+    }
+
+    const images = [
+      ...slide.images.filter((image) => isRevealed(image, fragmentStep)),
+      ...slide.staticImages.filter((image) => isRevealed(image, fragmentStep)),
+    ];
+    for (const image of images) {
+      const alt = image.alt ?? altFromFilename(image.filename);
+      html.push(`<figure><img src="${escapeHtml(image.filename.replace(/^\//, ''))}" alt="${escapeHtml(alt)}"></figure>`);
+    }
+
+    const portals = slide.portals.filter((portal) => isRevealed(portal, fragmentStep));
+    if (portals.length > 0) {
+      const links = portals.map(
+        (portal) => `<li>Portal to ${escapeHtml(portal.label ?? portal.target)}</li>`
+      );
+      html.push(`<ul aria-label="Portals">${links.join('')}</ul>`);
+    }
+
+    if (slide.notes) {
+      html.push(`<aside aria-label="Speaker notes"><p>${escapeHtml(slide.notes).replace(/\n/g, '<br>')}</p></aside>`);
+    }
+
+    return html.join('');
+  }
+
+  private renderElement(element: SlideElement): string {
+    switch (element.type) {
+      case 'heading': {
+        const level = Math.min(Math.max(element.level ?? 1, 1), 6);
+        return `<h${level}>${richTextToHtml(element.content)}</h${level}>`;
+      }
+      case 'code': {
+        const language = element.language ? ` class="language-${escapeHtml(element.language)}"` : '';
+        return `<pre><code${language}>${escapeHtml(element.content)}</code></pre>`;
+      }
+      case 'table': {
+        if (!element.tableData) return '';
+        const headers = element.tableData.headers.map((header) => `<th scope="col">${richTextToHtml(header)}</th>`);
+        const rows = element.tableData.rows.map(
+          (row) => `<tr>${row.map((cell) => `<td>${richTextToHtml(cell)}</td>`).join('')}</tr>`
+        );
+        return `<table><thead><tr>${headers.join('')}</tr></thead><tbody>${rows.join('')}</tbody></table>`;
+      }
+      default:
+        return `<p>${richTextToHtml(element.content)}</p>`;
+    }
+  }
+
+  // Nested lists follow the item indentation levels
+  private renderList(items: SlideElement[]): string {
+    const tag = items[0].type === 'numbered' ? 'ol' : 'ul';
+    const start = items[0].number ? ` start="${items[0].number}"` : '';
+    const baseLevel = items[0].level ?? 0;
+    let html = `<${tag}${start}>`;
+    let depth = 0;
+
+    items.forEach((item, index) => {
+      // A list can only nest one level deeper than the item before it
+      const level = Math.min(Math.max(0, (item.level ?? 0) - baseLevel), depth + 1);
+      if (index > 0) {
+        html += level > depth ? `<${tag}>` : '</li>' + `</${tag}></li>`.repeat(depth - level);
+      }
+      depth = level;
+      html += `<li>${richTextToHtml(item.content)}`;
+    });
+
+    return html + '</li>' + `</${tag}></li>`.repeat(depth) + `</${tag}>`;
+  }
+
+  destroy(): void {
+    this.root.remove();
+  }
+}
@@ -0,0 +1,180 @@
+import { audioManager } from '../managers/AudioManager';
+import { sampleUrl } from './SoundEffects';
+
+// Background music for the deck. Up to three tracks play at once:
+//
+//   music ─────┐
+//              ├─ duck ─ music bus
+//   ambient ───┘
+//   narration ─────────── effects bus
+//
+// The deck's track (front matter `music:`) loops across slides until a slide
+// picks another one; changing track crossfades. Ambient layers only play on
+// their own slide. Narration plays once on arrival and ducks the music, as
+// does anything else that calls duck() - a video background, for example.
+// Files stream through <audio> elements so long tracks start right away.
+
+export interface SlideAudio {
+  music?: string;      // Looping track; undefined or 'none' for silence
+  ambient?: string;    // Looping layer on top of the music
+  narration?: string;  // Played once when the slide is entered
+}
+
+interface Track {
+  name: string;
+  element: HTMLAudioElement;
+  source: MediaElementAudioSourceNode;
+  gain: GainNode;
+}
+
+const CROSSFADE = 1.5;   // seconds
+const DUCKED_LEVEL = 0.25;
+
+export class MusicPlayer {
+  private wanted: SlideAudio = {};
+  private slideIndex: number = -1;
+  private music: Track | null = null;
+  private ambient: Track | null = null;
+  private narration: Track | null = null;
+  private duck: GainNode | null = null;
+  private duckCount: number = 0;
+  private releaseNarrationDuck: (() => void) | null = null;
+  private destroyed: boolean = false;
+
+  constructor() {
+    // Tracks requested before the first key press start as soon as audio unlocks
+    audioManager.onUnlock(() => {
+      if (!this.destroyed) this.apply(true);
+    });
+  }
+
+  // Switch to the tracks of the slide now on screen. Narration only restarts
+  // when the slide index changes, so fragments and hot reloads don't replay it.
+  setSlide(index: number, audio: SlideAudio): void {
+    const entered = index !== this.slideIndex;
+    this.slideIndex = index;
+    this.wanted = audio;
+    this.apply(entered);
+  }
+
+  // Lower the music until the returned function is called
+  duckMusic(): () => void {
+    this.duckCount++;
+    this.updateDuck();
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.duckCount--;
+      this.updateDuck();
+    };
+  }
+
+  destroy(): void {
+    this.destroyed = true;
+    for (const track of [this.music, this.ambient, this.narration]) {
+      if (track) this.stop(track);
+    }
+    this.music = this.ambient = this.narration = null;
+    this.releaseNarrationDuck?.();
+    this.duck?.disconnect();
+  }
+
+  private apply(entered: boolean): void {
+    const musicBus = audioManager.getOutput('music');
+    const effectsBus = audioManager.getOutput('effects');
+    if (!musicBus || !effectsBus) return;
+
+    if (!this.duck) {
+      this.duck = musicBus.context.createGain();
+      this.duck.connect(musicBus);
+      this.updateDuck();
+    }
+
+    this.music = this.crossfade(this.music, MusicPlayer.trackName(this.wanted.music), this.duck);
+    this.ambient = this.crossfade(this.ambient, MusicPlayer.trackName(this.wanted.ambient), this.duck);
+
+    if (entered) {
+      if (this.narration) this.stop(this.narration);
+      this.releaseNarrationDuck?.();
+      this.narration = null;
+      this.releaseNarrationDuck = null;
+
+      const name = MusicPlayer.trackName(this.wanted.narration);
+      if (name) {
+        const narration = this.createTrack(name, false, effectsBus);
+        this.narration = narration;
+        this.releaseNarrationDuck = this.duckMusic();
+        narration.element.addEventListener('ended', () => {
+          if (this.narration !== narration) return;
+          this.stop(narration);
+          this.narration = null;
+          this.releaseNarrationDuck?.();
+          this.releaseNarrationDuck = null;
+        });
+        this.play(narration);
+      }
+    }
+  }
+
+  // Fade the current track out and the new one in; keep playing if unchanged
+  private crossfade(current: Track | null, name: string | undefined, output: AudioNode): Track | null {
+    if (current?.name === name) return current;
+    if (current) this.fadeOut(current);
+    if (!name) return null;
+
+    const track = this.createTrack(name, true, output);
+    const now = track.gain.context.currentTime;
+    track.gain.gain.setValueAtTime(0, now);
+    track.gain.gain.linearRampToValueAtTime(1, now + CROSSFADE);
+    this.play(track);
+    return track;
+  }
+
+  private createTrack(name: string, loop: boolean, output: AudioNode): Track {
+    const context = output.context as AudioContext;
+    const element = new Audio(sampleUrl(name));
+    element.loop = loop;
+    element.preload = 'auto';
+    element.addEventListener('error', () => console.warn(`Could not load audio "${element.src}"`));
+
+    const source = context.createMediaElementSource(element);
+    const gain = context.createGain();
+    source.connect(gain);
+    gain.connect(output);
+    return { name, element, source, gain };
+  }
+
+  private play(track: Track): void {
+    track.element.play().catch((error) => {
+      console.warn(`Could not play audio "${track.name}":`, error);
+    });
+  }
+
+  private fadeOut(track: Track): void {
+    const param = track.gain.gain;
+    const now = track.gain.context.currentTime;
+    param.cancelScheduledValues(now);
+    param.setValueAtTime(param.value, now);
+    param.linearRampToValueAtTime(0, now + CROSSFADE);
+    window.setTimeout(() => this.stop(track), CROSSFADE * 1000 + 100);
+  }
+
+  private stop(track: Track): void {
+    track.element.pause();
+    track.element.removeAttribute('src');
+    track.element.load();
+    track.source.disconnect();
+    track.gain.disconnect();
+  }
+
+  private updateDuck(): void {
+    if (!this.duck) return;
+    const level = this.duckCount > 0 ? DUCKED_LEVEL : 1;
+    this.duck.gain.setTargetAtTime(level, this.duck.context.currentTime, 0.2);
+  }
+
+  private static trackName(name: string | undefined): string | undefined {
+    return name && name !== 'none' ? name : undefined;
+  }
+}
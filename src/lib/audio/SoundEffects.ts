@@ -0,0 +1,83 @@
+import { theme, ThemeConfig } from '../../theme.config';
+import { audioManager } from '../managers/AudioManager';
+import { soundPresets } from './SoundPresets';
+
+// Plays the sound the theme assigns to a game event: either a preset from
+// SoundPresets or a sample file from public/sounds.
+
+export type SoundEvent = keyof ThemeConfig['audio'];
+
+const SAMPLE_FILE = /\.(wav|mp3|ogg|m4a|aac|webm|flac)$/i;
+
+const downloads = new Map<string, Promise<ArrayBuffer | null>>();
+const buffers = new Map<string, Promise<AudioBuffer | null>>();
+const warned = new Set<string>();
+
+// "click.wav" -> "sounds/click.wav"; paths with a folder are used as given
+export function sampleUrl(name: string): string {
+  return name.includes('/') ? name.replace(/^\//, '') : `sounds/${name}`;
+}
+
+function download(url: string): Promise<ArrayBuffer | null> {
+  let data = downloads.get(url);
+  if (!data) {
+    data = fetch(url)
+      .then((response) => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return response.arrayBuffer();
+      })
+      .catch((error) => {
+        console.warn(`Could not load sound "${url}":`, error);
+        return null;
+      });
+    downloads.set(url, data);
+  }
+  return data;
+}
+
+function decode(url: string, context: BaseAudioContext): Promise<AudioBuffer | null> {
+  let buffer = buffers.get(url);
+  if (!buffer) {
+    // decodeAudioData detaches its input, so decode a copy of the download
+    buffer = download(url)
+      .then((data) => (data ? context.decodeAudioData(data.slice(0)) : null))
+      .catch((error) => {
+        console.warn(`Could not decode sound "${url}":`, error);
+        return null;
+      });
+    buffers.set(url, buffer);
+  }
+  return buffer;
+}
+
+export function playSound(event: SoundEvent): void {
+  const output = audioManager.getOutput();
+  if (!output) return;
+
+  const name = theme.audio[event];
+  if (SAMPLE_FILE.test(name)) {
+    decode(sampleUrl(name), output.context).then((buffer) => {
+      if (!buffer) return;
+      const source = output.context.createBufferSource();
+      source.buffer = buffer;
+      source.connect(output);
+      source.start();
+    });
+    return;
+  }
+
+  const preset = soundPresets[name];
+  if (preset) {
+    preset(output.context, output);
+  } else if (!warned.has(name)) {
+    warned.add(name);
+    console.warn(`Unknown sound "${name}" for ${event}. Use a preset (${Object.keys(soundPresets).join(', ')}) or a file in public/sounds.`);
+  }
+}
+
+// Start downloading the theme's sample files so the first play isn't late
+export function preloadSounds(): void {
+  for (const name of Object.values(theme.audio)) {
+    if (SAMPLE_FILE.test(name)) download(sampleUrl(name));
+  }
+}
@@ -0,0 +1,205 @@
+// Synthesized sound effects. Each preset plays once into the given output
+// node; the theme's audio section maps game events to these names.
+
+export type SoundPreset = (context: BaseAudioContext, output: AudioNode) => void;
+
+// Descending square-wave zap
+const laser: SoundPreset = (context, output) => {
+  const oscillator = context.createOscillator();
+  const gainNode = context.createGain();
+
+  oscillator.connect(gainNode);
+  gainNode.connect(output);
+
+  oscillator.type = 'square';
+  oscillator.frequency.setValueAtTime(1200, context.currentTime);
+  oscillator.frequency.exponentialRampToValueAtTime(200, context.currentTime + 0.1);
+
+  gainNode.gain.setValueAtTime(0.15, context.currentTime);
+  gainNode.gain.exponentialRampToValueAtTime(0.01, context.currentTime + 0.1);
+
+  oscillator.start(context.currentTime);
+  oscillator.stop(context.currentTime + 0.1);
+};
+
+// Short falling sine
+const blip: SoundPreset = (context, output) => {
+  const oscillator = context.createOscillator();
+  const gainNode = context.createGain();
+
+  oscillator.connect(gainNode);
+  gainNode.connect(output);
+
+  oscillator.type = 'sine';
+  const now = context.currentTime;
+  oscillator.frequency.setValueAtTime(800, now);
+  oscillator.frequency.exponentialRampToValueAtTime(400, now + 0.1);
+
+  gainNode.gain.setValueAtTime(0.3, now);
+  gainNode.gain.exponentialRampToValueAtTime(0.01, now + 0.15);
+
+  oscillator.start(now);
+  oscillator.stop(now + 0.15);
+};
+
+// Explosive sound - multiple layered tones and a noise burst
+const shatter: SoundPreset = (context, output) => {
+  for (let i = 0; i < 4; i++) {
+    const oscillator = context.createOscillator();
+    const gainNode = context.createGain();
+
+    oscillator.connect(gainNode);
+    gainNode.connect(output);
+
+    oscillator.type = i % 2 === 0 ? 'square' : 'sawtooth';
+    const startFreq = 600 + i * 200;
+    oscillator.frequency.setValueAtTime(startFreq, context.currentTime);
+    oscillator.frequency.exponentialRampToValueAtTime(50, context.currentTime + 0.2 + i * 0.05);
+
+    gainNode.gain.setValueAtTime(0.15, context.currentTime + i * 0.02);
+    gainNode.gain.exponentialRampToValueAtTime(0.01, context.currentTime + 0.25);
+
+    oscillator.start(context.currentTime + i * 0.02);
+    oscillator.stop(context.currentTime + 0.3);
+  }
+
+  const noise = createNoise(context, 0.1);
+  const noiseGain = context.createGain();
+  noiseGain.gain.setValueAtTime(0.1, context.currentTime);
+  noiseGain.gain.exponentialRampToValueAtTime(0.01, context.currentTime + 0.1);
+  noise.connect(noiseGain);
+  noiseGain.connect(output);
+  noise.start();
+};
+
+// Rising energy sound
+const reform: SoundPreset = (context, output) => {
+  for (let i = 0; i < 3; i++) {
+    const oscillator = context.createOscillator();
+    const gainNode = context.createGain();
+
+    oscillator.connect(gainNode);
+    gainNode.connect(output);
+
+    oscillator.type = 'sine';
+    const startFreq = 200 + i * 100;
+    oscillator.frequency.setValueAtTime(startFreq, context.currentTime + i * 0.05);
+    oscillator.frequency.exponentialRampToValueAtTime(800, context.currentTime + 0.3);
+
+    gainNode.gain.setValueAtTime(0.1, context.currentTime + i * 0.05);
+    gainNode.gain.exponentialRampToValueAtTime(0.01, context.currentTime + 0.4);
+
+    oscillator.start(context.currentTime + i * 0.05);
+    oscillator.stop(context.currentTime + 0.4);
+  }
+};
+
+// Band-passed noise sweeping upwards
+const whoosh: SoundPreset = (context, output) => {
+  const now = context.currentTime;
+  const noise = createNoise(context, 0.5);
+  const filter = context.createBiquadFilter();
+  const gainNode = context.createGain();
+
+  filter.type = 'bandpass';
+  filter.Q.value = 2;
+  filter.frequency.setValueAtTime(300, now);
+  filter.frequency.exponentialRampToValueAtTime(3000, now + 0.4);
+
+  gainNode.gain.setValueAtTime(0.01, now);
+  gainNode.gain.exponentialRampToValueAtTime(0.2, now + 0.15);
+  gainNode.gain.exponentialRampToValueAtTime(0.01, now + 0.5);
+
+  noise.connect(filter);
+  filter.connect(gainNode);
+  gainNode.connect(output);
+  noise.start(now);
+};
+
+// Two-note arcade coin
+const coin: SoundPreset = (context, output) => {
+  const now = context.currentTime;
+  const oscillator = context.createOscillator();
+  const gainNode = context.createGain();
+
+  oscillator.connect(gainNode);
+  gainNode.connect(output);
+
+  oscillator.type = 'square';
+  oscillator.frequency.setValueAtTime(988, now);
+  oscillator.frequency.setValueAtTime(1319, now + 0.08);
+
+  gainNode.gain.setValueAtTime(0.08, now);
+  gainNode.gain.setValueAtTime(0.08, now + 0.2);
+  gainNode.gain.exponentialRampToValueAtTime(0.01, now + 0.3);
+
+  oscillator.start(now);
+  oscillator.stop(now + 0.3);
+};
+
+// Quiet, very short click - for decks that should sound like an app, not a game
+const click: SoundPreset = (context, output) => {
+  const now = context.currentTime;
+  const oscillator = context.createOscillator();
+  const gainNode = context.createGain();
+
+  oscillator.connect(gainNode);
+  gainNode.connect(output);
+
+  oscillator.type = 'sine';
+  oscillator.frequency.setValueAtTime(2000, now);
+
+  gainNode.gain.setValueAtTime(0.08, now);
+  gainNode.gain.exponentialRampToValueAtTime(0.001, now + 0.03);
+
+  oscillator.start(now);
+  oscillator.stop(now + 0.03);
+};
+
+// Soft bell tone
+const chime: SoundPreset = (context, output) => {
+  const now = context.currentTime;
+  [880, 1320].forEach((frequency, i) => {
+    const oscillator = context.createOscillator();
+    const gainNode = context.createGain();
+
+    oscillator.connect(gainNode);
+    gainNode.connect(output);
+
+    oscillator.type = 'sine';
+    oscillator.frequency.setValueAtTime(frequency, now);
+
+    gainNode.gain.setValueAtTime(i === 0 ? 0.08 : 0.04, now);
+    gainNode.gain.exponentialRampToValueAtTime(0.001, now + 0.6);
+
+    oscillator.start(now);
+    oscillator.stop(now + 0.6);
+  });
+};
+
+const none: SoundPreset = () => {};
+
+// White noise source of the given length in seconds
+function createNoise(context: BaseAudioContext, seconds: number): AudioBufferSourceNode {
+  const bufferSize = context.sampleRate * seconds;
+  const buffer = context.createBuffer(1, bufferSize, context.sampleRate);
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < bufferSize; i++) {
+    data[i] = Math.random() * 2 - 1;
+  }
+  const noise = context.createBufferSource();
+  noise.buffer = buffer;
+  return noise;
+}
+
+export const soundPresets: Record<string, SoundPreset> = {
+  laser,
+  blip,
+  shatter,
+  reform,
+  whoosh,
+  coin,
+  click,
+  chime,
+  none,
+};
@@ -0,0 +1,46 @@
+import Phaser from 'phaser';
+import type { ThemeConfig } from '../../theme.config';
+import { builtInBackgrounds } from './BuiltInBackgrounds';
+
+// Everything a background needs to draw itself behind the slide
+export interface BackgroundContext {
+  scene: Phaser.Scene;
+  width: number;                      // Room size
+  height: number;
+  options: ThemeConfig['background']; // Theme settings, with `image` set by the slide if it picked a file
+  calm: boolean;                      // Calm mode: draw, but don't animate
+  // Register a game object as part of the background; it is put behind the
+  // slide and destroyed (tweens included) when the background changes
+  add: <T extends Phaser.GameObjects.GameObject & Phaser.GameObjects.Components.Depth>(object: T) => T;
+  // Lower the music while the background plays sound; call the result to undo
+  duckMusic: () => () => void;
+}
+
+// Optional hooks a background returns for per-frame animation and cleanup of
+// anything that isn't a game object (timers, textures)
+export interface BackgroundHandle {
+  update?: (time: number, delta: number) => void;
+  destroy?: () => void;
+}
+
+export type BackgroundEffect = (context: BackgroundContext) => BackgroundHandle | void;
+
+const backgrounds = new Map<string, BackgroundEffect>(Object.entries(builtInBackgrounds));
+
+// Add or replace a background; pick it with `theme.background.type` or
+// <!-- slide: backdrop=name -->
+export function registerBackground(name: string, effect: BackgroundEffect): void {
+  backgrounds.set(name, effect);
+}
+
+export function getBackground(name: string): BackgroundEffect | undefined {
+  return backgrounds.get(name);
+}
+
+export function hasBackground(name: string): boolean {
+  return backgrounds.has(name);
+}
+
+export function getBackgroundNames(): string[] {
+  return [...backgrounds.keys()];
+}
@@ -0,0 +1,336 @@
+import Phaser from 'phaser';
+import type { BackgroundContext, BackgroundEffect } from './BackgroundRegistry';
+import { audioManager, AudioSettings } from '../managers/AudioManager';
+import { theme } from '../../theme.config';
+import { parseHexColor } from '../utils/color';
+
+const VIDEO_FILE = /\.(mp4|webm|ogv|mov)$/i;
+
+// Twinkling white dots scattered over the room
+function addStars(context: BackgroundContext, count: number): void {
+  const { scene, width, height } = context;
+  for (let i = 0; i < count; i++) {
+    const x = Phaser.Math.Between(0, width);
+    const y = Phaser.Math.Between(0, height);
+    const size = Phaser.Math.Between(1, 3);
+
+    const star = context.add(scene.add.circle(x, y, size, 0xffffff));
+    star.setAlpha(Phaser.Math.FloatBetween(0.05, 0.25));
+    if (context.calm) continue;
+
+    scene.tweens.add({
+      targets: star,
+      alpha: Phaser.Math.FloatBetween(0.03, 0.15),
+      duration: Phaser.Math.Between(2000, 5000),
+      yoyo: true,
+      repeat: -1,
+      ease: 'Sine.easeInOut',
+      delay: Phaser.Math.Between(0, 3000),
+    });
+  }
+}
+
+// A shooting star every 10-20 seconds; returns a function that stops them
+function startShootingStars(context: BackgroundContext): () => void {
+  let timer: Phaser.Time.TimerEvent;
+  const schedule = () => {
+    timer = context.scene.time.delayedCall(Phaser.Math.Between(10000, 20000), () => {
+      if (!context.calm) createShootingStar(context);
+      schedule();
+    });
+  };
+  schedule();
+  return () => timer.remove();
+}
+
+function createShootingStar(context: BackgroundContext): void {
+  const { scene, width, height } = context;
+  const distance = Phaser.Math.Between(600, 1000);
+
+  // Pick random edge to start from
+  const edge = Phaser.Math.Between(0, 3);
+  let startX: number, startY: number;
+
+  switch (edge) {
+    case 0: // Top edge
+      startX = Phaser.Math.Between(-50, width + 50);
+      startY = Phaser.Math.Between(-100, -20);
+      break;
+    case 1: // Right edge
+      startX = Phaser.Math.Between(width + 20, width + 100);
+      startY = Phaser.Math.Between(-50, height + 50);
+      break;
+    case 2: // Bottom edge
+      startX = Phaser.Math.Between(-50, width + 50);
+      startY = Phaser.Math.Between(height + 20, height + 100);
+      break;
+    default: // Left edge
+      startX = Phaser.Math.Between(-100, -20);
+      startY = Phaser.Math.Between(-50, height + 50);
+      break;
+  }
+
+  // Calculate direction towards center-ish area with some randomness
+  const centerX = width / 2 + Phaser.Math.Between(-200, 200);
+  const centerY = height / 2 + Phaser.Math.Between(-150, 150);
+  const baseAngle = Math.atan2(centerY - startY, centerX - startX);
+  const finalAngle = baseAngle + Phaser.Math.FloatBetween(-0.5, 0.5);
+
+  const endX = startX + Math.cos(finalAngle) * distance;
+  const endY = startY + Math.sin(finalAngle) * distance;
+  const duration = Phaser.Math.Between(800, 1500);
+
+  const trailLength = 8;
+  const trail: Phaser.GameObjects.Arc[] = [];
+
+  for (let i = 0; i < trailLength; i++) {
+    const particle = context.add(scene.add.circle(startX, startY, 2 - i * 0.2, 0xffffff));
+    particle.setAlpha(0.5 - i * 0.06);
+    trail.push(particle);
+  }
+
+  const head = trail[0];
+
+  scene.tweens.add({
+    targets: head,
+    x: endX,
+    y: endY,
+    duration: duration,
+    ease: 'Quad.easeIn',
+    onUpdate: () => {
+      for (let i = trail.length - 1; i > 0; i--) {
+        trail[i].setPosition(trail[i - 1].x, trail[i - 1].y);
+      }
+    },
+    onComplete: () => {
+      trail.forEach((p) => p.destroy());
+    },
+  });
+
+  scene.tweens.add({
+    targets: trail,
+    alpha: 0,
+    duration: duration,
+    ease: 'Quad.easeIn',
+  });
+}
+
+// Fit an image or video over the whole room, cropping the overflow
+function cover(object: Phaser.GameObjects.Image | Phaser.GameObjects.Video, context: BackgroundContext): void {
+  const scale = Math.max(context.width / object.width, context.height / object.height);
+  object.setScale(scale);
+}
+
+// The original Slide Ship sky
+const stars: BackgroundEffect = (context) => {
+  addStars(context, context.options.starCount ?? 100);
+  return { destroy: startShootingStars(context) };
+};
+
+// Three star layers at different depths: they drift at different speeds and
+// lag behind the camera during slide pans
+const parallax: BackgroundEffect = (context) => {
+  const { scene, width, height } = context;
+  const total = context.options.starCount ?? 100;
+  const layers = [
+    { share: 0.5, size: 1, alpha: 0.15, scroll: 0.2, speed: 4 },
+    { share: 0.3, size: 1.5, alpha: 0.3, scroll: 0.5, speed: 10 },
+    { share: 0.2, size: 2.5, alpha: 0.45, scroll: 0.8, speed: 22 },
+  ].map((layer) => {
+    // Each star is drawn twice, one room apart, so the layer wraps seamlessly
+    const graphics = context.add(scene.add.graphics());
+    graphics.fillStyle(0xffffff, layer.alpha);
+    for (let i = 0; i < Math.round(total * layer.share); i++) {
+      const x = Phaser.Math.Between(0, width);
+      const y = Phaser.Math.Between(0, height);
+      graphics.fillCircle(x, y, layer.size);
+      graphics.fillCircle(x + width, y, layer.size);
+    }
+    graphics.setScrollFactor(layer.scroll);
+    return { graphics, speed: layer.speed };
+  });
+
+  const stopShootingStars = startShootingStars(context);
+  return {
+    update: (_time, delta) => {
+      if (context.calm) return;
+      for (const layer of layers) {
+        layer.graphics.x -= (layer.speed * delta) / 1000;
+        if (layer.graphics.x <= -width) layer.graphics.x += width;
+      }
+    },
+    destroy: stopShootingStars,
+  };
+};
+
+// Soft clouds of color in the tint, the ship's glow and the heading color
+const nebula: BackgroundEffect = (context) => {
+  const { scene, width, height } = context;
+  const key = `background-nebula-${Phaser.Math.RND.uuid()}`;
+  const texture = scene.textures.createCanvas(key, width, height);
+  if (!texture) return;
+
+  const colors = [context.options.tint ?? '#7b2ff7', theme.starship.glowColor, theme.text.headingColor];
+  const canvas = texture.getContext();
+  canvas.globalCompositeOperation = 'lighter';
+  for (let i = 0; i < 7; i++) {
+    const x = Phaser.Math.Between(0, width);
+    const y = Phaser.Math.Between(0, height);
+    const radius = Phaser.Math.Between(Math.min(width, height) / 4, Math.max(width, height) / 2);
+    const color = Phaser.Display.Color.HexStringToColor(colors[i % colors.length]);
+    const gradient = canvas.createRadialGradient(x, y, 0, x, y, radius);
+    gradient.addColorStop(0, `rgba(${color.red}, ${color.green}, ${color.blue}, 0.22)`);
+    gradient.addColorStop(1, `rgba(${color.red}, ${color.green}, ${color.blue}, 0)`);
+    canvas.fillStyle = gradient;
+    canvas.fillRect(0, 0, width, height);
+  }
+  texture.refresh();
+
+  const clouds = context.add(scene.add.image(0, 0, key).setOrigin(0));
+  addStars(context, Math.round((context.options.starCount ?? 100) / 2));
+
+  if (!context.calm) {
+    // Slow breathing glow
+    scene.tweens.add({
+      targets: clouds,
+      alpha: 0.6,
+      duration: 8000,
+      yoyo: true,
+      repeat: -1,
+      ease: 'Sine.easeInOut',
+    });
+  }
+
+  return { destroy: () => scene.textures.remove(key) };
+};
+
+const grid: BackgroundEffect = (context) => {
+  const { scene, width, height } = context;
+  const graphics = context.add(scene.add.graphics());
+  graphics.lineStyle(1, parseHexColor(context.options.tint ?? '#1a1a3a'), 0.3);
+
+  for (let x = 0; x < width; x += 64) {
+    graphics.lineBetween(x, 0, x, height);
+  }
+  for (let y = 0; y < height; y += 64) {
+    graphics.lineBetween(0, y, width, y);
+  }
+};
+
+// Kubernetes-blue honeycomb with nodes that light up now and then
+const hexmesh: BackgroundEffect = (context) => {
+  const { scene, width, height } = context;
+  const color = parseHexColor(context.options.tint ?? '#326ce5');
+  const radius = 48;
+  const columnStep = Math.sqrt(3) * radius;
+  const rowStep = radius * 1.5;
+
+  const hexagon = (cx: number, cy: number) =>
+    Array.from({ length: 6 }, (_, side) => {
+      const angle = (side * Math.PI) / 3 - Math.PI / 2;
+      return new Phaser.Math.Vector2(cx + Math.cos(angle) * radius, cy + Math.sin(angle) * radius);
+    });
+
+  const centers: { x: number; y: number }[] = [];
+  const mesh = context.add(scene.add.graphics());
+  mesh.lineStyle(1, color, 0.18);
+  for (let row = 0; row * rowStep < height + radius; row++) {
+    const offset = row % 2 === 0 ? 0 : columnStep / 2;
+    for (let x = offset; x < width + columnStep; x += columnStep) {
+      const y = row * rowStep;
+      centers.push({ x, y });
+      const points = hexagon(x, y);
+      mesh.strokePoints(points, true);
+      mesh.fillStyle(color, 0.3);
+      mesh.fillCircle(points[0].x, points[0].y, 2);
+    }
+  }
+
+  if (context.calm) return;
+
+  const pulse = () => {
+    const center = Phaser.Utils.Array.GetRandom(centers);
+    const cell = context.add(scene.add.graphics());
+    cell.fillStyle(color, 0.12);
+    cell.lineStyle(2, color, 0.6);
+    cell.fillPoints(hexagon(center.x, center.y), true);
+    cell.strokePoints(hexagon(center.x, center.y), true);
+    cell.setAlpha(0);
+    scene.tweens.add({
+      targets: cell,
+      alpha: 1,
+      duration: 700,
+      yoyo: true,
+      hold: 400,
+      ease: 'Sine.easeInOut',
+      onComplete: () => cell.destroy(),
+    });
+  };
+  const timer = scene.time.addEvent({ delay: 900, callback: pulse, loop: true });
+  return { destroy: () => timer.remove() };
+};
+
+// A picture or looping video from `theme.background.image`, cropped to fill the room
+const image: BackgroundEffect = (context) => {
+  const { scene, width, height } = context;
+  const file = context.options.image;
+  if (!file) {
+    console.warn('The image background needs theme.background.image or <!-- slide: backdrop=file -->');
+    return;
+  }
+  const url = file.startsWith('/') ? file.slice(1) : file;
+  let destroyed = false;
+
+  if (VIDEO_FILE.test(file)) {
+    const withSound = context.options.videoSound === true;
+    const video = context.add(scene.add.video(width / 2, height / 2));
+    let releaseDuck: (() => void) | null = null;
+    // The <video> element plays outside the Web Audio graph, so follow the volume settings by hand
+    const applyVolume = (settings: AudioSettings) => {
+      video.setMute(settings.muted);
+      video.setVolume(settings.master);
+    };
+    const removeAudioListener = withSound ? audioManager.onChange(applyVolume) : () => {};
+    video.once(Phaser.GameObjects.Events.VIDEO_CREATED, () => cover(video, context));
+    video.once(Phaser.GameObjects.Events.VIDEO_PLAYING, () => {
+      if (withSound && !destroyed) releaseDuck = context.duckMusic();
+    });
+    video.loadURL(url, !withSound);
+    if (withSound) applyVolume(audioManager.getSettings());
+    video.play(true);
+    return {
+      destroy: () => {
+        destroyed = true;
+        removeAudioListener();
+        releaseDuck?.();
+      },
+    };
+  }
+
+  const key = `background:${file}`;
+  const show = () => {
+    if (destroyed || !scene.textures.exists(key)) return;
+    cover(context.add(scene.add.image(width / 2, height / 2, key)), context);
+  };
+  if (scene.textures.exists(key)) {
+    show();
+  } else {
+    scene.load.image(key, url);
+    scene.load.once(`filecomplete-image-${key}`, show);
+    if (!scene.load.isLoading()) scene.load.start();
+  }
+  return { destroy: () => (destroyed = true) };
+};
+
+// Just the background color
+const solid: BackgroundEffect = () => {};
+
+export const builtInBackgrounds: Record<string, BackgroundEffect> = {
+  stars,
+  parallax,
+  nebula,
+  grid,
+  hexmesh,
+  image,
+  solid,
+};
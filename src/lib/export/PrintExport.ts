@@ -0,0 +1,221 @@
+import { DeckConfig, Slide } from '../parser/MarkdownParser';
+import { AutoLayout } from '../layout/AutoLayout';
+import { defaultCrystalPosition, defaultStaticImagePosition } from '../managers/SlideManager';
+import { highlight, isHighlighted } from '../parser/SyntaxHighlighter';
+import { tokenColor } from '../sprites/CodeBlock';
+import { theme } from '../../theme.config';
+import { escapeHtml } from '../utils/html';
+
+// Paged HTML handout of the whole deck for printing or "Save as PDF".
+// Slides are laid out with AutoLayout like in the game, with every fragment
+// shown and every crystal already shattered so its image is visible.
+
+export interface PrintOptions {
+  notes: boolean; // Speaker notes under each slide
+}
+
+const STYLES = `
+  #print-export { display: none; background: #444; padding: 24px 0; }
+  body.print-preview { display: block; overflow: auto; }
+  body.print-preview > :not(#print-export) { display: none !important; }
+  body.print-preview #print-export { display: block; }
+  #print-export .toolbar { text-align: center; margin-bottom: 24px; }
+  #print-export .toolbar button { font: 700 16px monospace; padding: 8px 20px; background: #1a1a3a; color: #0ff; border: 1px solid #326ce5; cursor: pointer; }
+  #print-export .page { background: #fff; width: 277mm; margin: 0 auto 24px; padding: 8mm; }
+  #print-export .frame { position: relative; width: 100%; overflow: hidden; container-type: inline-size; }
+  #print-export .page.with-notes .frame { width: 75%; margin: 0 auto; }
+  #print-export .el { position: absolute; width: max-content; white-space: pre-wrap; line-height: 1.2; }
+  #print-export .el.center { transform: translateX(-50%); }
+  #print-export .media { position: absolute; transform: translate(-50%, -50%); }
+  #print-export table { position: absolute; border-collapse: collapse; }
+  #print-export td, #print-export th { border: 0.15cqw solid var(--table-border); padding: 0.4cqw 0.8cqw; text-align: left; }
+  #print-export th { background: var(--table-header); }
+  #print-export pre { position: absolute; margin: 0; padding: 0.8cqw 1.25cqw; border: 0.15cqw solid; border-radius: 0.6cqw; }
+  #print-export .notes { margin-top: 4mm; font: 11pt/1.4 sans-serif; color: #222; white-space: pre-wrap; }
+  #print-export .number { font: 9pt monospace; color: #888; text-align: right; margin-top: 2mm; }
+  @page { size: A4 landscape; margin: 0; }
+  @media print {
+    body { display: block !important; overflow: visible !important; background: #fff !important; }
+    body > :not(#print-export) { display: none !important; }
+    #print-export { display: block !important; background: none; padding: 0; }
+    #print-export .toolbar { display: none; }
+    #print-export .page { margin: 0; break-after: page; }
+    #print-export .frame { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  }
+`;
+
+// Phaser rich text ({b}/{i}) back to HTML
+function richTextToHtml(content: string): string {
+  return escapeHtml(content)
+    .replace(/\{(\/?)b\}/g, '<$1b>')
+    .replace(/\{(\/?)i\}/g, '<$1i>');
+}
+
+// Code blocks colored like the CodeBlock sprite
+function codeToHtml(code: string, language?: string): string {
+  return highlight(code, isHighlighted(language) ? language : undefined)
+    .map((line) =>
+      line.map((token) => `<span style="color:${tokenColor(token.type)}">${escapeHtml(token.text)}</span>`).join('')
+    )
+    .join('\n');
+}
+
+// Same path handling as the sprites: /images/a.png is loaded relative to the page
+function imageUrl(filename: string): string {
+  return escapeHtml(filename.startsWith('/') ? filename.slice(1) : filename);
+}
+
+export class PrintExport {
+  private slides: Slide[];
+  private deckConfig: DeckConfig;
+  private options: PrintOptions;
+  private root: HTMLElement | null = null;
+  private style: HTMLStyleElement | null = null;
+
+  constructor(slides: Slide[], deckConfig: DeckConfig, options: PrintOptions) {
+    this.slides = slides;
+    this.deckConfig = deckConfig;
+    this.options = options;
+  }
+
+  // Build the document (hidden on screen unless previewing, shown when printing)
+  render(): void {
+    this.destroy();
+
+    this.style = document.createElement('style');
+    this.style.textContent = STYLES;
+    document.head.appendChild(this.style);
+
+    this.root = document.createElement('div');
+    this.root.id = 'print-export';
+    this.root.innerHTML = `
+      <div class="toolbar"><button type="button">PRINT / SAVE AS PDF</button></div>
+      ${this.slides.map((slide, index) => this.renderPage(slide, index)).join('')}
+    `;
+    this.root.querySelector('button')!.addEventListener('click', () => window.print());
+    document.body.appendChild(this.root);
+  }
+
+  // Show the handout instead of the game
+  showPreview(): void {
+    if (!this.root) this.render();
+    document.body.classList.add('print-preview');
+  }
+
+  destroy(): void {
+    document.body.classList.remove('print-preview');
+    this.root?.remove();
+    this.style?.remove();
+    this.root = null;
+    this.style = null;
+  }
+
+  private renderPage(slide: Slide, index: number): string {
+    const notes = this.options.notes && slide.notes ? `<div class="notes">${escapeHtml(slide.notes)}</div>` : '';
+    return `
+      <div class="page${this.options.notes ? ' with-notes' : ''}">
+        ${this.renderSlide(slide)}
+        ${notes}
+        <div class="number">${index + 1} / ${this.slides.length}</div>
+      </div>
+    `;
+  }
+
+  private renderSlide(slide: Slide): string {
+    const { width, height } = this.deckConfig.canvas;
+    const layout = new AutoLayout({ width, height });
+    const html: string[] = [];
+
+    // Positions in % of the slide, sizes in % of its width (cqw), so the slide
+    // scales to whatever the page allows
+    const left = (x: number) => `${(x / width) * 100}%`;
+    const top = (y: number) => `${(y / height) * 100}%`;
+    const size = (px: number) => `${(px / width) * 100}cqw`;
+
+    layout.layout(slide).forEach((layoutEl, index) => {
+      const slideEl = slide.elements[index];
+
+      if (slideEl.type === 'table' && slideEl.tableData) {
+        const header = slideEl.tableData.headers.map((h) => `<th>${richTextToHtml(h)}</th>`).join('');
+        const rows = slideEl.tableData.rows
+          .map((row) => `<tr>${row.map((cell) => `<td>${richTextToHtml(cell)}</td>`).join('')}</tr>`)
+          .join('');
+        html.push(
+          `<table style="left:${left(layoutEl.x)};top:${top(layoutEl.y)};width:${size(width - layoutEl.x * 2)};` +
+            `font-size:${size(parseInt(layoutEl.fontSize))};font-family:${layoutEl.fontFamily};color:${theme.table.textColor};` +
+            `--table-border:${theme.table.borderColor};--table-header:${theme.table.headerColor}">` +
+            `<tr style="color:${theme.table.headerTextColor}">${header}</tr>${rows}</table>`
+        );
+        return;
+      }
+
+      if (slideEl.type === 'code') {
+        html.push(
+          `<pre style="left:${left(layoutEl.x)};top:${top(layoutEl.y)};font-size:${size(parseInt(layoutEl.fontSize))};` +
+            `line-height:${size(layoutEl.lineHeight)};font-family:${layoutEl.fontFamily};` +
+            `background:${theme.code.backgroundColor};border-color:${theme.code.borderColor}">` +
+            `${codeToHtml(slideEl.content, slideEl.language)}</pre>`
+        );
+        return;
+      }
+
+      // Layout y is the middle of the first line. Long lines wrap at the
+      // layout padding (160 = padding on both sides), like the columns do.
+      const fontSize = parseInt(layoutEl.fontSize);
+      const maxWidth = layoutEl.maxWidth ?? (layoutEl.anchor === 'center' ? width - 160 : width - 80 - layoutEl.x);
+      const style = [
+        `left:${left(layoutEl.x)}`,
+        `top:${top(layoutEl.y - (fontSize * 1.2) / 2)}`,
+        `max-width:${size(maxWidth)}`,
+        `font-size:${size(fontSize)}`,
+        `font-family:${layoutEl.fontFamily}`,
+        `color:${layoutEl.color}`,
+        `text-align:${layoutEl.align ?? 'left'}`,
+        layoutEl.fontStyle ? `font-weight:${layoutEl.fontStyle.includes('bold') ? 'bold' : 'normal'}` : '',
+      ].join(';');
+      const anchor = layoutEl.anchor === 'center' ? ' center' : '';
+      html.push(`<div class="el${anchor}" style="${style}">${richTextToHtml(layoutEl.content)}</div>`);
+    });
+
+    // Crystals in their shattered state: the image at its display position
+    slide.images.forEach((image, index) => {
+      const position = defaultCrystalPosition(index, width, height);
+      html.push(this.renderImage(image.filename, image.x ?? position.x, image.y ?? position.y, image.width, image.height));
+    });
+
+    slide.staticImages.forEach((image, index) => {
+      const position = defaultStaticImagePosition(index, width, height);
+      html.push(this.renderImage(image.filename, image.x ?? position.x, image.y ?? position.y, image.width, image.height));
+    });
+
+    slide.portals.forEach((portal, index) => {
+      const x = portal.x ?? (width * (index + 1)) / (slide.portals.length + 1);
+      const y = portal.y ?? height - 140;
+      const target = this.slides.findIndex((s) => s.id === portal.target);
+      const label = portal.label ?? (target >= 0 ? `Slide ${target + 1}` : `#${portal.target}`);
+      html.push(
+        `<div class="media" style="left:${left(x)};top:${top(y)};width:${size(90)};height:${size(90)};` +
+          `border:${size(4)} solid ${theme.text.headingColor};border-radius:50%"></div>` +
+          `<div class="el center" style="left:${left(x)};top:${top(y + 60)};font-size:${size(16)};` +
+          `font-family:${theme.fonts.body};color:${theme.text.accentColor}">&rarr; ${escapeHtml(label)}</div>`
+      );
+    });
+
+    const background = slide.directives.background ?? theme.background.color;
+    return `<div class="frame" style="aspect-ratio:${width} / ${height};background:${background}">${html.join('')}</div>`;
+  }
+
+  private renderImage(filename: string, x: number, y: number, width?: number, height?: number): string {
+    const { width: slideWidth, height: slideHeight } = this.deckConfig.canvas;
+    const sizeStyle = [
+      width ? `width:${(width / slideWidth) * 100}cqw` : '',
+      height ? `height:${(height / slideWidth) * 100}cqw` : '',
+      // Images without an explicit size keep their natural size relative to the slide
+      !width && !height ? 'max-width:90cqw' : '',
+    ].join(';');
+    return (
+      `<img class="media" src="${imageUrl(filename)}" alt="" ` +
+      `style="left:${(x / slideWidth) * 100}%;top:${(y / slideHeight) * 100}%;${sizeStyle}">`
+    );
+  }
+}
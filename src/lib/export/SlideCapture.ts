@@ -0,0 +1,92 @@
+import Phaser from 'phaser';
+import { SlideManager, SlideObjects } from '../managers/SlideManager';
+
+// In-page side of the headless image export (bin/slide-ship.js). With ?capture
+// the deck exposes window.slideShipCapture, which the CLI drives over the
+// DevTools protocol: read the slide list, then capture each slide as a PNG.
+
+export interface CaptureSlideInfo {
+  index: number;
+  id?: string;
+  title: string;
+}
+
+export interface SlideCaptureApi {
+  title?: string;
+  width: number;
+  height: number;
+  slides: CaptureSlideInfo[];
+  capture(index: number): Promise<string>; // PNG data URL
+}
+
+declare global {
+  interface Window {
+    slideShipCapture?: SlideCaptureApi;
+  }
+}
+
+// Crystals materialize and text fades in after a slide is built
+const SETTLE_DELAY = 800;
+
+export class SlideCapture {
+  private scene: Phaser.Scene;
+  private slideManager: SlideManager;
+  private onSlideChanged: (objects: SlideObjects) => void;
+
+  constructor(scene: Phaser.Scene, slideManager: SlideManager, onSlideChanged: (objects: SlideObjects) => void) {
+    this.scene = scene;
+    this.slideManager = slideManager;
+    this.onSlideChanged = onSlideChanged;
+
+    const config = slideManager.getDeckConfig();
+    window.slideShipCapture = {
+      title: config.title,
+      width: config.canvas.width,
+      height: config.canvas.height,
+      slides: slideManager.getSlides().map((slide, index) => ({
+        index,
+        id: slide.id,
+        title: slideManager.getSlideHeading(index) ?? `Slide ${index + 1}`,
+      })),
+      capture: (index) => this.capture(index),
+    };
+  }
+
+  static isCaptureMode(): boolean {
+    return new URLSearchParams(window.location.search).has('capture');
+  }
+
+  // Show a slide with every fragment revealed and snapshot it once it has settled
+  private async capture(index: number): Promise<string> {
+    this.slideManager.goToSlide(index, this.scene.cameras.main, this.onSlideChanged, {
+      fragment: 'all',
+      animate: false,
+      remember: false,
+    });
+
+    await this.waitForImages();
+    await document.fonts.ready;
+    await new Promise((resolve) => this.scene.time.delayedCall(SETTLE_DELAY, resolve));
+
+    return new Promise((resolve) => {
+      this.scene.game.renderer.snapshot((image) => {
+        resolve((image as HTMLImageElement).src);
+      });
+    });
+  }
+
+  // Crystal and static images are loaded on demand when a slide is built
+  private waitForImages(): Promise<void> {
+    return new Promise((resolve) => {
+      if (!this.scene.load.isLoading()) {
+        resolve();
+        return;
+      }
+      this.scene.load.once(Phaser.Loader.Events.COMPLETE, () => resolve());
+    });
+  }
+
+  destroy(): void {
+    delete window.slideShipCapture;
+  }
+}
@@ -1,5 +1,6 @@
 import { Slide, SlideElement } from '../parser/MarkdownParser';
-import { theme } from '../../theme.config';
+import { resolveFont, theme, TypographyStyle } from '../../theme.config';
+import { wrapText } from './TextWrap';
 
 export interface LayoutElement {
   x: number;
@@ -8,9 +9,17 @@ export interface LayoutElement {
   fontSize: string;
   color: string;
   fontFamily: string;
+  lineHeight: number; // px between lines of multi-line text
   fontStyle?: string;
   align?: 'left' | 'center';
+  anchor?: 'left' | 'center'; // Whether x is the left edge or the center of the text
   type?: string; // For special handling like 'table'
+  maxWidth?: number; // Width of the column: text is wrapped to it, code blocks scaled down
+}
+
+interface StackResult {
+  elements: LayoutElement[];
+  bottom: number; // y just below the last element (without trailing spacing)
 }
 
 export interface LayoutConfig {
@@ -25,6 +34,8 @@ const DEFAULT_CONFIG: LayoutConfig = {
   padding: 80,
 };
 
+const COLUMN_GAP = 40; // px kept clear between the two columns
+
 export class AutoLayout {
   private config: LayoutConfig;
 
@@ -32,28 +43,95 @@ export class AutoLayout {
     this.config = { ...DEFAULT_CONFIG, ...config };
   }
 
+  // Returns one layout element per slide element, in the same order
   layout(slide: Slide): LayoutElement[] {
+    switch (slide.directives.layout) {
+      case 'center':
+        return this.layoutCentered(slide.elements);
+      case 'two-column':
+        return this.layoutTwoColumns(slide.elements);
+      default: {
+        const { elements, bottom } = this.stack(slide.elements, this.config.padding, this.config.padding);
+        this.centerVertically(elements, bottom);
+        return elements;
+      }
+    }
+  }
+
+  private layoutCentered(slideElements: SlideElement[]): LayoutElement[] {
+    const { elements, bottom } = this.stack(slideElements, this.config.padding, this.config.padding);
+    this.centerVertically(elements, bottom);
+
+    // Tables keep their full-width position, everything else is centered on the slide
+    elements.forEach((el) => {
+      if (el.type === 'table') return;
+      el.x = this.config.width / 2;
+      el.anchor = 'center';
+      el.align = 'center';
+    });
+    return elements;
+  }
+
+  private layoutTwoColumns(slideElements: SlideElement[]): LayoutElement[] {
+    // Leading headings span both columns, the rest is split in half
+    let headingCount = 0;
+    while (headingCount < slideElements.length && slideElements[headingCount].type === 'heading') {
+      headingCount++;
+    }
+    const body = slideElements.slice(headingCount);
+    const split = Math.ceil(body.length / 2);
+    const columnWidth = (this.config.width - this.config.padding * 2) / 2;
+
+    const header = this.stack(slideElements.slice(0, headingCount), this.config.padding, this.config.padding);
+    const columnTop = headingCount > 0 ? header.bottom + this.getElementSpacing(slideElements[headingCount - 1]) : this.config.padding;
+    const left = this.stack(body.slice(0, split), this.config.padding, columnTop, columnWidth - COLUMN_GAP / 2);
+    const right = this.stack(body.slice(split), this.config.padding + columnWidth + COLUMN_GAP / 2, columnTop, columnWidth - COLUMN_GAP / 2);
+
+    const elements = [...header.elements, ...left.elements, ...right.elements];
+    this.centerVertically(elements, Math.max(left.bottom, right.bottom, header.bottom));
+    return elements;
+  }
+
+  // Stack elements top to bottom starting at (x, y), wrapped to maxWidth if given
+  private stack(slideElements: SlideElement[], x: number, y: number, maxWidth?: number): StackResult {
     const elements: LayoutElement[] = [];
-    let currentY = this.config.padding;
+    let currentY = y;
 
-    for (const element of slide.elements) {
-      const layoutElement = this.layoutElement(element, currentY);
-      elements.push(layoutElement);
-      currentY += this.getElementHeight(element) + this.getElementSpacing(element);
+    for (const element of slideElements) {
+      const layoutEl = this.layoutElement(element, x, currentY);
+      if (maxWidth !== undefined) this.fitToWidth(element, layoutEl, maxWidth - (layoutEl.x - x));
+      elements.push(layoutEl);
+      currentY += this.getElementHeight(element, layoutEl) + this.getElementSpacing(element);
     }
 
-    // Center vertically if content is short
-    const totalHeight = currentY - this.getElementSpacing(slide.elements[slide.elements.length - 1]);
-    if (totalHeight < this.config.height - this.config.padding * 2) {
-      const offset = (this.config.height - totalHeight) / 2 - this.config.padding;
+    const last = slideElements[slideElements.length - 1];
+    return { elements, bottom: last ? currentY - this.getElementSpacing(last) : y };
+  }
+
+  // Center vertically if content is short
+  private centerVertically(elements: LayoutElement[], bottom: number): void {
+    if (bottom < this.config.height - this.config.padding * 2) {
+      const offset = (this.config.height - bottom) / 2 - this.config.padding;
       elements.forEach((el) => (el.y += offset));
     }
+  }
 
-    return elements;
+  // Tables keep their own width; code can't wrap, so its block is scaled down
+  private fitToWidth(element: SlideElement, layoutEl: LayoutElement, maxWidth: number): void {
+    if (element.type === 'table') return;
+    layoutEl.maxWidth = maxWidth;
+    if (element.type === 'code') return;
+    const font = `${layoutEl.fontStyle ?? 'normal'} ${layoutEl.fontSize} ${layoutEl.fontFamily}`;
+    layoutEl.content = wrapText(layoutEl.content, maxWidth, font);
   }
 
-  private layoutElement(element: SlideElement, y: number): LayoutElement {
-    const leftX = this.config.padding;
+  private layoutElement(element: SlideElement, leftX: number, y: number): LayoutElement {
+    const style = this.getTypography(element);
+    const typography = {
+      fontSize: `${style.size}px`,
+      fontFamily: resolveFont(style.font),
+      lineHeight: style.lineHeight,
+    };
 
     switch (element.type) {
       case 'heading':
@@ -61,9 +139,8 @@ export class AutoLayout {
           x: leftX,
           y,
           content: element.content,
-          fontSize: this.getHeadingSize(element.level || 1),
+          ...typography,
           color: element.level === 1 ? theme.text.headingColor : theme.text.accentColor,
-          fontFamily: element.level === 1 || element.level === 2 || element.level === 3 ? 'Orbitron' : 'monospace',
           fontStyle: element.level === 2 || element.level === 3 ? 'bold' : 'normal',
         };
 
@@ -73,9 +150,8 @@ export class AutoLayout {
           x: leftX + bulletIndent,
           y,
           content: '• ' + element.content,
-          fontSize: '24px',
+          ...typography,
           color: theme.text.bodyColor,
-          fontFamily: 'Revalia',
           align: 'left' as const,
         };
 
@@ -86,9 +162,8 @@ export class AutoLayout {
           x: leftX + numberIndent,
           y,
           content: number + '. ' + element.content,
-          fontSize: '24px',
+          ...typography,
           color: theme.text.bodyColor,
-          fontFamily: 'Revalia',
           align: 'left' as const,
         };
 
@@ -97,9 +172,8 @@ export class AutoLayout {
           x: leftX,
           y,
           content: element.content,
-          fontSize: '20px',
-          color: '#88ff88',
-          fontFamily: 'monospace',
+          ...typography,
+          color: theme.code.color,
           align: 'left' as const,
         };
 
@@ -109,9 +183,8 @@ export class AutoLayout {
           x: leftX,
           y,
           content: '', // Tables handle their own rendering
-          fontSize: '20px',
+          ...typography,
           color: theme.text.bodyColor,
-          fontFamily: 'Revalia',
           type: 'table' as const, // Special marker
         };
 
@@ -121,54 +194,44 @@ export class AutoLayout {
           x: leftX,
           y,
           content: element.content,
-          fontSize: '24px',
+          ...typography,
           color: theme.text.bodyColor,
-          fontFamily: 'Revalia',
           align: 'left' as const,
         };
     }
   }
 
-  private getHeadingSize(level: number): string {
-    switch (level) {
-      case 1:
-        return '56px';
-      case 2:
-        return '40px';
-      case 3:
-        return '32px';
+  private getTypography(element: SlideElement): TypographyStyle {
+    switch (element.type) {
+      case 'heading': {
+        const level = element.level || 1;
+        return theme.typography[level === 1 ? 'h1' : level === 2 ? 'h2' : level === 3 ? 'h3' : 'h4'];
+      }
+      case 'bullet':
+      case 'numbered':
+        return theme.typography.list;
+      case 'code':
+        return theme.typography.code;
+      case 'table':
+        return theme.typography.table;
       default:
-        return '28px';
+        return theme.typography.paragraph;
     }
   }
 
-  private getElementHeight(element: SlideElement): number {
+  private getElementHeight(element: SlideElement, layoutEl: LayoutElement): number {
+    const { lineHeight } = this.getTypography(element);
     switch (element.type) {
-      case 'heading': {
-        const lineCount = element.content.split('\n').length;
-        const lineHeight = element.level === 1 ? 70 : element.level === 2 ? 50 : 40;
-        return lineHeight * lineCount;
-      }
-      case 'bullet': {
-        const bulletLineCount = element.content.split('\n').length;
-        return 35 * bulletLineCount;
-      }
-      case 'numbered': {
-        const numLineCount = element.content.split('\n').length;
-        return 35 * numLineCount;
-      }
       case 'table': {
-        // Calculate height based on number of rows
+        // Header plus one line per row
         const rowCount = element.tableData?.rows.length || 0;
-        const headerHeight = 40;
-        const rowHeight = 40;
-        return headerHeight + (rowCount * rowHeight);
+        return lineHeight * (rowCount + 1);
       }
       case 'code':
-        const lines = element.content.split('\n').length;
-        return lines * 24 + 20;
+        return element.content.split('\n').length * lineHeight + 20;
       default:
-        return 35;
+        // Laid-out content, which includes the line breaks added by wrapping
+        return layoutEl.content.split('\n').length * lineHeight;
     }
   }
 
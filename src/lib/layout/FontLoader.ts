@@ -0,0 +1,46 @@
+import { resolveFont, theme } from '../../theme.config';
+
+// Loads the theme's font files and waits for the fonts the slides use.
+// Phaser measures text when it is created, so laying out a slide before its
+// font has arrived leaves hit boxes sized for the fallback font.
+
+const LOAD_TIMEOUT = 3000; // ms - after this, draw with whatever is ready
+const GENERIC_FAMILIES = ['serif', 'sans-serif', 'monospace', 'cursive', 'fantasy', 'system-ui'];
+
+const registered = new Set<string>();
+
+// Register the font files from `theme.fontFiles` (once per family and file)
+function registerFontFiles(): void {
+  for (const [family, file] of Object.entries(theme.fontFiles)) {
+    const url = file.startsWith('/') ? file.slice(1) : file;
+    const key = `${family}|${url}`;
+    if (registered.has(key)) continue;
+    registered.add(key);
+
+    // One file covers every weight; variable fonts render bold properly
+    const face = new FontFace(family, `url("${url}")`, { weight: '100 900' });
+    document.fonts.add(face);
+    face.load().catch(() => {
+      console.warn(`Could not load font "${family}" from ${url}, using a fallback font`);
+    });
+  }
+}
+
+// Resolves once every family in the typography is loaded or has failed, but
+// never waits longer than LOAD_TIMEOUT
+export function loadFonts(): Promise<void> {
+  if (!('fonts' in document)) return Promise.resolve();
+  registerFontFiles();
+
+  // "Orbitron, sans-serif" -> Orbitron; the fallback needs no loading
+  const families = new Set(
+    Object.values(theme.typography).map((style) => resolveFont(style.font).split(',')[0].trim().replace(/^["']|["']$/g, ''))
+  );
+  const loads = [...families]
+    .filter((family) => !GENERIC_FAMILIES.includes(family))
+    .flatMap((family) => [`16px "${family}"`, `bold 16px "${family}"`])
+    .map((font) => document.fonts.load(font).catch(() => []));
+
+  const timeout = new Promise<void>((resolve) => window.setTimeout(resolve, LOAD_TIMEOUT));
+  return Promise.race([Promise.all(loads).then(() => undefined), timeout]);
+}
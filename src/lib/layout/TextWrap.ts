@@ -0,0 +1,52 @@
+import { stripRichText } from '../utils/richText';
+
+// Breaks slide text into lines that fit a width, before anything is drawn.
+// Wrapping in the layout (instead of Phaser's wordWrap) keeps the stacking of
+// the elements below, the hit boxes, the overview and the print export in step
+// with what ends up on screen. Text is measured on a canvas the same way Phaser
+// measures it.
+
+let context: CanvasRenderingContext2D | null = null;
+
+function measure(text: string, font: string, bold: boolean): number {
+  context ??= document.createElement('canvas').getContext('2d');
+  if (!context) return 0;
+  context.font = bold && !font.includes('bold') ? `bold ${font}` : font;
+  return context.measureText(stripRichText(text)).width;
+}
+
+// Insert line breaks into `content` so no line is wider than `maxWidth`.
+// `font` is a CSS font ("bold 28px Orbitron, sans-serif"). The {b}/{i} tags
+// are kept, and a word that is too long on its own gets a line to itself.
+// Lines after a leading "• " or "1. " are measured without it, since the text
+// obstacle indents them to line up with the text after the marker.
+export function wrapText(content: string, maxWidth: number, font: string): string {
+  const marker = content.match(/^(?:\d+\.|•)\s+/)?.[0];
+  const indent = marker ? measure(marker, font, false) : 0;
+  const spaceWidth = measure(' ', font, false);
+  let bold = false;
+  const lines: string[] = [];
+
+  content.split('\n').forEach((paragraph, paragraphIndex) => {
+    let line = '';
+    let lineWidth = 0;
+    for (const word of paragraph.split(' ')) {
+      const wordWidth = measure(word, font, bold || word.includes('{b}'));
+      const lastOpen = word.lastIndexOf('{b}');
+      if (lastOpen !== -1 || word.includes('{/b}')) bold = lastOpen > word.lastIndexOf('{/b}');
+
+      const available = lines.length > 0 || paragraphIndex > 0 ? maxWidth - indent : maxWidth;
+      if (line !== '' && lineWidth + spaceWidth + wordWidth > available) {
+        lines.push(line);
+        line = word;
+        lineWidth = wordWidth;
+      } else {
+        lineWidth += line === '' ? wordWidth : spaceWidth + wordWidth;
+        line = line === '' ? word : `${line} ${word}`;
+      }
+    }
+    lines.push(line);
+  });
+
+  return lines.join('\n');
+}
@@ -0,0 +1,151 @@
+// One shared AudioContext for every sound in the deck. Sounds connect to the
+// effects or music bus, both of which feed the master volume:
+//
+//   effects ─┐
+//            ├─ master ─ speakers
+//   music ───┘
+//
+// Browsers only allow audio after a user gesture, so the context is created on
+// the first key press, click or touch; sounds played before that are dropped.
+// Volumes and mute are saved in localStorage.
+
+export type AudioBus = 'effects' | 'music';
+export type VolumeChannel = 'master' | AudioBus;
+
+export interface AudioSettings {
+  master: number;  // 0-1
+  effects: number;
+  music: number;
+  muted: boolean;
+}
+
+const STORAGE_KEY = 'slide-ship:audio';
+const DEFAULT_SETTINGS: AudioSettings = { master: 0.8, effects: 1, music: 0.6, muted: false };
+const UNLOCK_EVENTS = ['pointerdown', 'keydown', 'touchstart'] as const;
+
+export class AudioManager {
+  private context: AudioContext | null = null;
+  private master: GainNode | null = null;
+  private buses: Partial<Record<AudioBus, GainNode>> = {};
+  private settings: AudioSettings = AudioManager.loadSettings();
+  private listeners: ((settings: AudioSettings) => void)[] = [];
+  private unlockListeners: (() => void)[] = [];
+
+  constructor() {
+    const unlock = () => {
+      this.unlock();
+      if (this.context?.state === 'running') {
+        UNLOCK_EVENTS.forEach((type) => window.removeEventListener(type, unlock, true));
+      }
+    };
+    UNLOCK_EVENTS.forEach((type) => window.addEventListener(type, unlock, true));
+  }
+
+  // Create or resume the context; must run inside a user gesture the first time
+  unlock(): void {
+    if (!this.context) {
+      const AudioContextClass =
+        window.AudioContext || (window as typeof window & { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
+      this.context = new AudioContextClass();
+      this.master = this.context.createGain();
+      this.master.connect(this.context.destination);
+      for (const bus of ['effects', 'music'] as AudioBus[]) {
+        const gain = this.context.createGain();
+        gain.connect(this.master);
+        this.buses[bus] = gain;
+      }
+      this.applyVolumes();
+      this.context.addEventListener('statechange', () => this.notifyUnlocked());
+    }
+    if (this.context.state === 'suspended') {
+      this.context.resume().catch(() => {});
+    }
+    this.notifyUnlocked();
+  }
+
+  // Run once audio can play - right away if it already can
+  onUnlock(listener: () => void): void {
+    if (this.context?.state === 'running') listener();
+    else this.unlockListeners.push(listener);
+  }
+
+  private notifyUnlocked(): void {
+    if (this.context?.state !== 'running') return;
+    const listeners = this.unlockListeners;
+    this.unlockListeners = [];
+    listeners.forEach((listener) => listener());
+  }
+
+  // Node to connect a sound to, or null while audio is still locked
+  getOutput(bus: AudioBus = 'effects'): AudioNode | null {
+    if (!this.context || this.context.state !== 'running') return null;
+    return this.buses[bus] ?? null;
+  }
+
+  getContext(): AudioContext | null {
+    return this.context;
+  }
+
+  getSettings(): AudioSettings {
+    return { ...this.settings };
+  }
+
+  isMuted(): boolean {
+    return this.settings.muted;
+  }
+
+  toggleMute(): void {
+    this.update({ muted: !this.settings.muted });
+  }
+
+  setVolume(channel: VolumeChannel, volume: number): void {
+    this.update({ [channel]: Math.min(1, Math.max(0, Math.round(volume * 100) / 100)) });
+  }
+
+  // Called with the new settings whenever a volume or mute changes
+  onChange(listener: (settings: AudioSettings) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  private update(changes: Partial<AudioSettings>): void {
+    this.settings = { ...this.settings, ...changes };
+    this.applyVolumes();
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.settings));
+    } catch {
+      // Private browsing - the setting just won't persist
+    }
+    this.listeners.forEach((listener) => listener(this.getSettings()));
+  }
+
+  private applyVolumes(): void {
+    if (!this.context || !this.master) return;
+    const now = this.context.currentTime;
+    // Short ramps avoid clicks when muting mid-sound
+    this.master.gain.setTargetAtTime(this.settings.muted ? 0 : this.settings.master, now, 0.02);
+    this.buses.effects?.gain.setTargetAtTime(this.settings.effects, now, 0.02);
+    this.buses.music?.gain.setTargetAtTime(this.settings.music, now, 0.02);
+  }
+
+  private static loadSettings(): AudioSettings {
+    try {
+      const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+      const volume = (value: unknown, fallback: number) =>
+        typeof value === 'number' && value >= 0 && value <= 1 ? value : fallback;
+      return {
+        master: volume(saved.master, DEFAULT_SETTINGS.master),
+        effects: volume(saved.effects, DEFAULT_SETTINGS.effects),
+        music: volume(saved.music, DEFAULT_SETTINGS.music),
+        muted: saved.muted === true,
+      };
+    } catch {
+      return { ...DEFAULT_SETTINGS };
+    }
+  }
+}
+
+// Shared by all sprites and scenes
+export const audioManager = new AudioManager();
@@ -0,0 +1,93 @@
+import Phaser from 'phaser';
+import { BackgroundContext, BackgroundHandle, getBackground } from '../backgrounds/BackgroundRegistry';
+import { isCalmMode, theme } from '../../theme.config';
+
+// Everything behind the slides: the theme's background, or the one a slide
+// picks with <!-- slide: backdrop=nebula --> or backdrop=/images/cluster.jpg.
+// Consecutive slides with the same background keep it running instead of
+// rebuilding it, so stars don't jump on every slide change.
+
+// Below the slide content (5-6) and the transition overlay (950)
+const BACKGROUND_DEPTH = -10;
+const MEDIA_FILE = /\.(png|jpe?g|gif|webp|svg|mp4|webm|ogv|mov)$/i;
+
+export class BackgroundManager {
+  private scene: Phaser.Scene;
+  private duckMusic: () => () => void;
+  private objects = new Set<Phaser.GameObjects.GameObject>();
+  private handle: BackgroundHandle | null = null;
+  private currentKey: string | null = null;
+  private warned = new Set<string>();
+
+  constructor(scene: Phaser.Scene, duckMusic: () => () => void) {
+    this.scene = scene;
+    this.duckMusic = duckMusic;
+    scene.events.on(Phaser.Scenes.Events.UPDATE, this.update, this);
+    scene.events.once(Phaser.Scenes.Events.SHUTDOWN, () => this.destroy());
+  }
+
+  // Show the background for a slide; `backdrop` is a background name or an
+  // image/video file, and the theme's background is used without one
+  show(backdrop?: string): void {
+    let type = backdrop ?? theme.background.type;
+    const options = { ...theme.background };
+    if (MEDIA_FILE.test(type)) {
+      options.image = type;
+      type = 'image';
+    }
+
+    let effect = getBackground(type);
+    if (!effect) {
+      if (!this.warned.has(type)) {
+        this.warned.add(type);
+        console.warn(`Unknown background "${type}", using "stars"`);
+      }
+      type = 'stars';
+      effect = getBackground(type)!;
+    }
+
+    // Same background with the same settings - leave it running
+    const calm = isCalmMode();
+    const key = JSON.stringify([type, options, calm]);
+    if (key === this.currentKey) return;
+
+    this.clear();
+    this.currentKey = key;
+    const { width, height } = this.scene.scale;
+    const context: BackgroundContext = {
+      scene: this.scene,
+      width,
+      height,
+      options,
+      calm,
+      add: (object) => {
+        object.setDepth(BACKGROUND_DEPTH);
+        this.objects.add(object);
+        object.once(Phaser.GameObjects.Events.DESTROY, () => this.objects.delete(object));
+        return object;
+      },
+      duckMusic: this.duckMusic,
+    };
+    this.handle = effect(context) ?? null;
+  }
+
+  private update(time: number, delta: number): void {
+    this.handle?.update?.(time, delta);
+  }
+
+  private clear(): void {
+    for (const object of [...this.objects]) {
+      this.scene.tweens.killTweensOf(object);
+      object.destroy();
+    }
+    this.objects.clear();
+    this.handle?.destroy?.();
+    this.handle = null;
+    this.currentKey = null;
+  }
+
+  destroy(): void {
+    this.scene.events.off(Phaser.Scenes.Events.UPDATE, this.update, this);
+    this.clear();
+  }
+}
@@ -0,0 +1,63 @@
+// Keeps the current slide in location.hash (#/5, or #/5.2 for fragment step 2)
+// so reloads and shared links open the same slide, and back/forward navigate.
+
+export interface SlideLocation {
+  index: number;     // 0-based slide index
+  fragment: number;  // Revealed fragment steps
+}
+
+export class HashRouter {
+  private onNavigate: (location: SlideLocation) => void;
+  private lastIndex: number | null = null;
+  private readonly handlePopState = () => {
+    const location = HashRouter.parse(window.location.hash);
+    if (location) {
+      this.lastIndex = location.index;
+      this.onNavigate(location);
+    }
+  };
+
+  constructor(onNavigate: (location: SlideLocation) => void) {
+    this.onNavigate = onNavigate;
+    window.addEventListener('popstate', this.handlePopState);
+  }
+
+  // Slide numbers in the URL are 1-based like the HUD
+  static parse(hash: string): SlideLocation | null {
+    const match = hash.match(/^#\/(\d+)(?:\.(\d+))?$/);
+    if (!match) return null;
+    return {
+      index: Math.max(0, parseInt(match[1], 10) - 1),
+      fragment: match[2] ? parseInt(match[2], 10) : 0,
+    };
+  }
+
+  static format(location: SlideLocation): string {
+    const slide = `#/${location.index + 1}`;
+    return location.fragment > 0 ? `${slide}.${location.fragment}` : slide;
+  }
+
+  // Location from the URL the page was opened with
+  getInitialLocation(): SlideLocation | null {
+    const location = HashRouter.parse(window.location.hash);
+    if (location) this.lastIndex = location.index;
+    return location;
+  }
+
+  // Slide changes add a history entry, fragment steps replace the current one
+  update(location: SlideLocation): void {
+    const hash = HashRouter.format(location);
+    if (window.location.hash === hash) return;
+
+    if (this.lastIndex === null || this.lastIndex === location.index) {
+      window.history.replaceState(null, '', hash);
+    } else {
+      window.history.pushState(null, '', hash);
+    }
+    this.lastIndex = location.index;
+  }
+
+  destroy(): void {
+    window.removeEventListener('popstate', this.handlePopState);
+  }
+}
@@ -1,16 +1,66 @@
 import Phaser from 'phaser';
-import { MarkdownParser, Slide, SlideImage } from '../parser/MarkdownParser';
+import { countFragments, DeckConfig, MarkdownParser, Slide, SlideImage, SlidePortal, StaticImage as SlideStaticImage } from '../parser/MarkdownParser';
 import { AutoLayout } from '../layout/AutoLayout';
 import { TextObstacle } from '../sprites/TextObstacle';
 import { CrystalImage } from '../sprites/CrystalImage';
 import { StaticImage } from '../sprites/StaticImage';
 import { Table } from '../sprites/Table';
+import { CodeBlock } from '../sprites/CodeBlock';
+import { Portal } from '../sprites/Portal';
+import { getTransition, hasTransition } from '../transitions/TransitionRegistry';
+import { playSound } from '../audio/SoundEffects';
+import { BackgroundManager } from './BackgroundManager';
+import { stripRichText } from '../utils/richText';
+import { isCalmMode, motionDuration, theme } from '../../theme.config';
 
 export interface SlideObjects {
   textObstacles: TextObstacle[];
   crystals: CrystalImage[];
   staticImages: StaticImage[];
   tables: Table[];
+  codeBlocks: CodeBlock[];
+  portals: Portal[];
+}
+
+export interface GoToSlideOptions {
+  fragment?: number | 'all'; // Fragment steps to reveal on arrival (default: none)
+  animate?: boolean;         // false shows the slide immediately
+  duration?: number;         // Camera sweep duration in ms (default grows with distance)
+  onStep?: (index: number) => void; // Called for each slide the sweep passes
+  remember?: boolean;        // false keeps the jump out of the visit history (default: true)
+}
+
+// Default positions for images without explicit coordinates, as fractions of
+// the canvas (laid out on the default 1280x720) so they spread out on any size
+const DEFAULT_CRYSTAL_POSITIONS = [
+  { x: 200 / 1280, y: 200 / 720 },
+  { x: 1080 / 1280, y: 200 / 720 },
+  { x: 200 / 1280, y: 520 / 720 },
+  { x: 1080 / 1280, y: 520 / 720 },
+  { x: 0.5, y: 0.5 },
+];
+
+const DEFAULT_STATIC_IMAGE_POSITIONS = [
+  { x: 0.5, y: 0.5 },
+  { x: 200 / 1280, y: 0.5 },
+  { x: 1080 / 1280, y: 0.5 },
+];
+
+// Default position of the index-th crystal on a canvas of the given size
+export function defaultCrystalPosition(index: number, width: number, height: number): { x: number; y: number } {
+  const position = DEFAULT_CRYSTAL_POSITIONS[index % DEFAULT_CRYSTAL_POSITIONS.length];
+  return { x: Math.round(position.x * width), y: Math.round(position.y * height) };
+}
+
+export function defaultStaticImagePosition(index: number, width: number, height: number): { x: number; y: number } {
+  const position = DEFAULT_STATIC_IMAGE_POSITIONS[index % DEFAULT_STATIC_IMAGE_POSITIONS.length];
+  return { x: Math.round(position.x * width), y: Math.round(position.y * height) };
+}
+
+// Anything on a slide that stays hidden until its fragment step is reached
+interface FragmentTarget {
+  setVisible(visible: boolean): void;
+  getContainer(): Phaser.GameObjects.Container;
 }
 
 export class SlideManager {
@@ -23,8 +73,15 @@ export class SlideManager {
   private crystals: CrystalImage[] = [];
   private staticImages: StaticImage[] = [];
   private tables: Table[] = [];
+  private codeBlocks: CodeBlock[] = [];
+  private portals: Portal[] = [];
   private roomWidth: number = 1280;
+  private roomHeight: number = 720;
   private isTransitioning: boolean = false;
+  private fragmentStep: number = 0; // Fragments revealed on the current slide
+  private fragments: Map<number, FragmentTarget[]> = new Map();
+  private history: number[] = []; // Slides visited before the current one, most recent last
+  private background: BackgroundManager | null = null;
 
   constructor(scene: Phaser.Scene) {
     this.scene = scene;
@@ -32,14 +89,39 @@ export class SlideManager {
     this.layout = new AutoLayout({ width: this.roomWidth });
   }
 
+  // Backgrounds switch together with the slide, while a transition hides the change
+  setBackground(background: BackgroundManager): void {
+    this.background = background;
+  }
+
   loadMarkdown(markdown: string): void {
     this.slides = this.parser.parse(markdown);
+
+    // Unknown transitions fall back to 'slide' when played
+    const names = [this.parser.getDeckConfig().transition, ...this.slides.map((slide) => slide.directives.transition)];
+    for (const name of new Set(names)) {
+      if (name && !hasTransition(name)) console.warn(`Unknown slide transition "${name}"`);
+    }
+
+    // Rooms are as large as the deck's canvas
+    const { width, height } = this.parser.getDeckConfig().canvas;
+    this.roomWidth = width;
+    this.roomHeight = height;
+    this.layout = new AutoLayout({ width, height });
+  }
+
+  getDeckConfig(): DeckConfig {
+    return this.parser.getDeckConfig();
   }
 
   getSlides(): Slide[] {
     return this.slides;
   }
 
+  getCurrentSlide(): Slide | undefined {
+    return this.slides[this.currentSlideIndex];
+  }
+
   getCurrentSlideIndex(): number {
     return this.currentSlideIndex;
   }
@@ -48,19 +130,79 @@ export class SlideManager {
     return this.slides.length;
   }
 
+  // Index of the slide with a {#id}, or -1
+  findSlideById(id: string): number {
+    return this.slides.findIndex((slide) => slide.id === id);
+  }
+
   isInTransition(): boolean {
     return this.isTransitioning;
   }
 
+  getFragmentStep(): number {
+    return this.fragmentStep;
+  }
+
+  getFragmentCount(): number {
+    const slide = this.getCurrentSlide();
+    return slide ? countFragments(slide) : 0;
+  }
+
+  hasNextFragment(): boolean {
+    return this.fragmentStep < this.getFragmentCount();
+  }
+
+  hasPrevFragment(): boolean {
+    return this.fragmentStep > 0;
+  }
+
+  // Reveal the next fragment. Returns false if everything is already shown.
+  nextFragment(): boolean {
+    if (this.isTransitioning || !this.hasNextFragment()) return false;
+    this.fragmentStep++;
+    for (const target of this.fragments.get(this.fragmentStep) ?? []) {
+      target.setVisible(true);
+      this.scene.tweens.add({
+        targets: target.getContainer(),
+        alpha: { from: 0, to: 1 },
+        duration: motionDuration(300),
+        ease: 'Sine.easeOut',
+      });
+    }
+    return true;
+  }
+
+  // Hide the last revealed fragment. Returns false if none is shown.
+  prevFragment(): boolean {
+    if (this.isTransitioning || !this.hasPrevFragment()) return false;
+    for (const target of this.fragments.get(this.fragmentStep) ?? []) {
+      target.setVisible(false);
+    }
+    this.fragmentStep--;
+    return true;
+  }
+
+  private addFragment(step: number | undefined, target: FragmentTarget): void {
+    if (step === undefined) return;
+    const targets = this.fragments.get(step) ?? [];
+    targets.push(target);
+    this.fragments.set(step, targets);
+    target.setVisible(step <= this.fragmentStep);
+  }
+
   createCurrentSlide(): SlideObjects {
     this.clearCurrentSlide();
 
-    if (this.slides.length === 0) return { textObstacles: [], crystals: [], staticImages: [], tables: [] };
+    if (this.slides.length === 0) return { textObstacles: [], crystals: [], staticImages: [], tables: [], codeBlocks: [], portals: [] };
 
     const slide = this.slides[this.currentSlideIndex];
     const layoutElements = this.layout.layout(slide);
 
-    // Process layout elements, pairing with slide elements for tables
+    // Per-slide background color, falling back to the theme
+    this.scene.cameras.main.setBackgroundColor(slide.directives.background ?? theme.background.color);
+    this.background?.show(slide.directives.backdrop);
+
+    // Process layout elements, pairing with slide elements for tables and code
     let elementIndex = 0;
     for (const layoutEl of layoutElements) {
       const slideEl = slide.elements[elementIndex];
@@ -69,6 +211,15 @@ export class SlideManager {
         // Create table with data from slide element
         const table = new Table(this.scene, layoutEl.x, layoutEl.y, slideEl.tableData);
         this.tables.push(table);
+      } else if (slideEl.type === 'code') {
+        const codeBlock = new CodeBlock(this.scene, layoutEl.x, layoutEl.y, slideEl.content, slideEl.language, {
+          fontSize: layoutEl.fontSize,
+          fontFamily: layoutEl.fontFamily,
+          lineHeight: layoutEl.lineHeight,
+          maxWidth: layoutEl.maxWidth,
+        });
+        this.codeBlocks.push(codeBlock);
+        this.addFragment(slideEl.fragment, codeBlock);
       } else {
         const obstacle = new TextObstacle(
           this.scene,
@@ -78,12 +229,15 @@ export class SlideManager {
           {
             fontSize: layoutEl.fontSize,
             fontFamily: layoutEl.fontFamily,
+            lineHeight: layoutEl.lineHeight,
             color: layoutEl.color,
             fontStyle: layoutEl.fontStyle,
             align: layoutEl.align,
+            anchor: layoutEl.anchor,
           }
         );
         this.textObstacles.push(obstacle);
+        this.addFragment(slideEl.fragment, obstacle);
       }
       elementIndex++;
     }
@@ -94,23 +248,27 @@ export class SlideManager {
     // Create static images for this slide
     this.createSlideStaticImages(slide.staticImages);
 
-    return { textObstacles: this.textObstacles, crystals: this.crystals, staticImages: this.staticImages, tables: this.tables };
+    // Create portals to other slides
+    this.createSlidePortals(slide.portals);
+
+    return {
+      textObstacles: this.textObstacles,
+      crystals: this.crystals,
+      staticImages: this.staticImages,
+      tables: this.tables,
+      codeBlocks: this.codeBlocks,
+      portals: this.portals,
+    };
   }
 
   private createSlideCrystals(images: SlideImage[]): void {
-    // Default positions for images without explicit coordinates
-    const defaultPositions = [
-      { x: 200, y: 200 },
-      { x: 1080, y: 200 },
-      { x: 200, y: 520 },
-      { x: 1080, y: 520 },
-      { x: 640, y: 360 },
-    ];
+    const { width, height } = this.scene.scale;
 
     images.forEach((image, index) => {
       // Use explicit position from markdown or default position
-      const x = image.x ?? defaultPositions[index % defaultPositions.length].x;
-      const y = image.y ?? defaultPositions[index % defaultPositions.length].y;
+      const position = defaultCrystalPosition(index, width, height);
+      const x = image.x ?? position.x;
+      const y = image.y ?? position.y;
 
       const crystal = new CrystalImage(
         this.scene,
@@ -123,21 +281,18 @@ export class SlideManager {
         image.crystalY    // Crystal icon Y position (defaults to image position)
       );
       this.crystals.push(crystal);
+      this.addFragment(image.fragment, crystal);
     });
   }
 
-  private createSlideStaticImages(staticImages: { type: 'static'; filename: string; x?: number; y?: number; width?: number; height?: number }[]): void {
-    // Default positions for static images without explicit coordinates
-    const defaultPositions = [
-      { x: 640, y: 360 },
-      { x: 200, y: 360 },
-      { x: 1080, y: 360 },
-    ];
+  private createSlideStaticImages(staticImages: SlideStaticImage[]): void {
+    const { width, height } = this.scene.scale;
 
     staticImages.forEach((image, index) => {
       // Use explicit position from markdown or default position
-      const x = image.x ?? defaultPositions[index % defaultPositions.length].x;
-      const y = image.y ?? defaultPositions[index % defaultPositions.length].y;
+      const position = defaultStaticImagePosition(index, width, height);
+      const x = image.x ?? position.x;
+      const y = image.y ?? position.y;
 
       const staticImg = new StaticImage(
         this.scene,
@@ -148,9 +303,35 @@ export class SlideManager {
         image.height
       );
       this.staticImages.push(staticImg);
+      this.addFragment(image.fragment, staticImg);
+    });
+  }
+
+  private createSlidePortals(portals: SlidePortal[]): void {
+    // Portals without coordinates line up along the bottom of the slide
+    const { width, height } = this.scene.scale;
+
+    portals.forEach((portal, index) => {
+      const x = portal.x ?? (width * (index + 1)) / (portals.length + 1);
+      const y = portal.y ?? height - 140;
+
+      const gate = new Portal(this.scene, x, y, portal.target, portal.label ?? this.getSlideTitle(portal.target));
+      this.portals.push(gate);
+      this.addFragment(portal.fragment, gate);
     });
   }
 
+  // First heading of a named slide, for portal labels
+  private getSlideTitle(id: string): string {
+    return this.getSlideHeading(this.findSlideById(id)) ?? `#${id}`;
+  }
+
+  // First heading of a slide as plain text
+  getSlideHeading(index: number): string | undefined {
+    const heading = this.slides[index]?.elements.find((element) => element.type === 'heading');
+    return heading && stripRichText(heading.content).split('\n')[0];
+  }
+
   private clearCurrentSlide(): void {
     for (const obstacle of this.textObstacles) {
       obstacle.destroy();
@@ -176,6 +357,18 @@ export class SlideManager {
       table.destroy();
     }
     this.tables = [];
+
+    for (const codeBlock of this.codeBlocks) {
+      codeBlock.destroy();
+    }
+    this.codeBlocks = [];
+
+    for (const portal of this.portals) {
+      portal.destroy();
+    }
+    this.portals = [];
+
+    this.fragments.clear();
   }
 
   canGoNext(): boolean {
@@ -186,13 +379,39 @@ export class SlideManager {
     return this.currentSlideIndex > 0;
   }
 
+  // Slides form columns (split by ---) of vertical stacks (split by --).
+  // Each returns the index of the neighbouring slide in that direction, or -1.
+  getSlideRight(): number {
+    const current = this.getCurrentSlide();
+    if (!current) return -1;
+    return this.slides.findIndex((slide) => slide.column === current.column + 1);
+  }
+
+  getSlideLeft(): number {
+    const current = this.getCurrentSlide();
+    if (!current) return -1;
+    return this.slides.findIndex((slide) => slide.column === current.column - 1);
+  }
+
+  getSlideBelow(): number {
+    const below = this.slides[this.currentSlideIndex + 1];
+    return below && below.column === this.getCurrentSlide()?.column ? this.currentSlideIndex + 1 : -1;
+  }
+
+  getSlideAbove(): number {
+    const above = this.slides[this.currentSlideIndex - 1];
+    return above && above.column === this.getCurrentSlide()?.column ? this.currentSlideIndex - 1 : -1;
+  }
+
+  // Fly to the top of the next column, skipping any sub-slides below this one
   transitionToNext(
     camera: Phaser.Cameras.Scene2D.Camera,
     starship: { getSprite: () => Phaser.GameObjects.Container },
     onComplete: (objects: SlideObjects) => void
   ): void {
-    if (!this.canGoNext() || this.isTransitioning) return;
-    this.transition(1, camera, starship, onComplete);
+    const target = this.getSlideRight();
+    if (target < 0 || this.isTransitioning) return;
+    this.transition(target, camera, starship, onComplete);
   }
 
   transitionToPrev(
@@ -200,71 +419,104 @@ export class SlideManager {
     starship: { getSprite: () => Phaser.GameObjects.Container },
     onComplete: (objects: SlideObjects) => void
   ): void {
-    if (!this.canGoPrev() || this.isTransitioning) return;
-    this.transition(-1, camera, starship, onComplete);
+    const target = this.getSlideLeft();
+    if (target < 0 || this.isTransitioning) return;
+    this.transition(target, camera, starship, onComplete);
   }
 
-  transitionToNextWithKeyboard(
+  transitionDown(
     camera: Phaser.Cameras.Scene2D.Camera,
     starship: { getSprite: () => Phaser.GameObjects.Container },
     onComplete: (objects: SlideObjects) => void
   ): void {
-    if (!this.canGoNext() || this.isTransitioning) return;
-    this.transitionWithKeyboard(1, camera, starship, onComplete);
+    const target = this.getSlideBelow();
+    if (target < 0 || this.isTransitioning) return;
+    this.transition(target, camera, starship, onComplete);
   }
 
-  transitionToPrevWithKeyboard(
+  transitionUp(
     camera: Phaser.Cameras.Scene2D.Camera,
     starship: { getSprite: () => Phaser.GameObjects.Container },
     onComplete: (objects: SlideObjects) => void
   ): void {
-    if (!this.canGoPrev() || this.isTransitioning) return;
-    this.transitionWithKeyboard(-1, camera, starship, onComplete);
+    const target = this.getSlideAbove();
+    if (target < 0 || this.isTransitioning) return;
+    this.transition(target, camera, starship, onComplete);
   }
 
-  private transition(
-    direction: 1 | -1,
+  // Keyboard navigation is a one-slide jump; the ship stays where it is
+  transitionToNextWithKeyboard(
     camera: Phaser.Cameras.Scene2D.Camera,
-    starship: { getSprite: () => Phaser.GameObjects.Container },
     onComplete: (objects: SlideObjects) => void
   ): void {
-    this.isTransitioning = true;
+    if (!this.canGoNext() || this.isTransitioning) return;
+    this.goToSlide(this.currentSlideIndex + 1, camera, onComplete);
+  }
 
-    const ship = starship.getSprite();
-    
-    // Ship should end up on the opposite side after transition
-    const shipEndX = direction > 0 ? 150 : this.roomWidth - 150;
-
-    this.scene.tweens.add({
-      targets: camera,
-      scrollX: this.roomWidth * direction,
-      duration: 500,
-      ease: 'Cubic.easeInOut',
-      onComplete: () => {
-        this.currentSlideIndex += direction;
-        
-        camera.scrollX = 0;
-        ship.setX(ship.x - this.roomWidth * direction);
-        
-        this.clearCurrentSlide();
-        const newObjects = this.createCurrentSlide();
-        
-        this.scene.tweens.add({
-          targets: ship,
-          x: shipEndX,
-          duration: 300,
-          ease: 'Cubic.easeOut',
-          onComplete: () => {
-            this.isTransitioning = false;
-            onComplete(newObjects);
-          },
-        });
-      },
-    });
+  transitionToPrevWithKeyboard(
+    camera: Phaser.Cameras.Scene2D.Camera,
+    onComplete: (objects: SlideObjects) => void
+  ): void {
+    if (!this.canGoPrev() || this.isTransitioning) return;
+    this.goToSlide(this.currentSlideIndex - 1, camera, onComplete, { fragment: 'all', remember: false });
   }
 
-  private transitionWithKeyboard(
-    direction: 1 | -1,
+  canGoBack(): boolean {
+    return this.history.length > 0;
+  }
+
+  // Return to the previously visited slide, retracing portal jumps
+  goBack(
+    camera: Phaser.Cameras.Scene2D.Camera,
+    onComplete: (objects: SlideObjects) => void,
+    options: GoToSlideOptions = {}
+  ): boolean {
+    if (this.isTransitioning || !this.canGoBack()) return false;
+
+    const index = this.history.pop()!;
+    const started = this.goToSlide(index, camera, onComplete, { fragment: 'all', ...options, remember: false });
+    if (!started) this.history.push(index);
+    return started;
+  }
+
+  // Jump to any slide. The camera sweeps past the slides in between, taking
+  // longer the further it goes. Returns false if the jump can't start.
+  goToSlide(
+    index: number,
+    camera: Phaser.Cameras.Scene2D.Camera,
+    onComplete: (objects: SlideObjects) => void,
+    options: GoToSlideOptions = {}
+  ): boolean {
+    if (this.isTransitioning || this.slides.length === 0) return false;
+
+    const target = Phaser.Math.Clamp(index, 0, this.slides.length - 1);
+    const fragment = options.fragment === 'all' ? countFragments(this.slides[target]) : options.fragment ?? 0;
+    const distance = Math.abs(target - this.currentSlideIndex);
+    if (distance === 0 && options.fragment === undefined) return false;
+
+    if (distance > 0 && options.remember !== false) {
+      this.history.push(this.currentSlideIndex);
+    }
+
+    if (distance === 0 || options.animate === false) {
+      onComplete(this.showSlide(target, fragment));
+      return true;
+    }
+
+    this.isTransitioning = true;
+    const path = this.sweepPath(target);
+    const duration = options.duration ?? Math.min(300 + 150 * (path.length - 1), 1200);
+
+    this.playTransition(target, fragment, camera, duration, path, () => {
+      const newObjects = this.showSlide(target, fragment);
+      this.isTransitioning = false;
+      onComplete(newObjects);
+    }, options.onStep);
+    return true;
+  }
+
+  private transition(
+    targetIndex: number,
     camera: Phaser.Cameras.Scene2D.Camera,
     starship: { getSprite: () => Phaser.GameObjects.Container },
     onComplete: (objects: SlideObjects) => void
@@ -272,34 +524,174 @@ export class SlideManager {
     this.isTransitioning = true;
 
     const ship = starship.getSprite();
-    const shipStartX = ship.x;
+    const direction = targetIndex > this.currentSlideIndex ? 1 : -1;
+    const vertical = this.isVerticalMove(targetIndex);
 
-    // Faster transition for keyboard navigation
-    const CAMERA_DURATION = 300;
+    // Ship should end up on the opposite side after transition
+    const shipEnd = vertical
+      ? { y: direction > 0 ? 150 : this.roomHeight - 150 }
+      : { x: direction > 0 ? 150 : this.roomWidth - 150 };
 
-    this.scene.tweens.add({
-      targets: camera,
-      scrollX: this.roomWidth * direction,
-      duration: CAMERA_DURATION,
-      ease: 'Cubic.easeInOut',
-      onComplete: () => {
-        this.currentSlideIndex += direction;
+    this.history.push(this.currentSlideIndex);
 
-        camera.scrollX = 0;
+    const fragment = direction > 0 ? 0 : countFragments(this.slides[targetIndex]);
+    // The ship only crosses into the neighbouring room, whatever lies below it
+    this.playTransition(targetIndex, fragment, camera, 500, [targetIndex], () => {
+      this.enterSlide(targetIndex, direction);
 
-        // Keep ship at same relative position
-        ship.setX(shipStartX);
+      if (vertical) {
+        ship.setY(ship.y - this.roomHeight * direction);
+      } else {
+        ship.setX(ship.x - this.roomWidth * direction);
+      }
 
-        this.clearCurrentSlide();
-        const newObjects = this.createCurrentSlide();
+      this.clearCurrentSlide();
+      const newObjects = this.createCurrentSlide();
 
-        // Ship stays in place - no tween needed
+      if (isCalmMode()) {
+        ship.setPosition(shipEnd.x ?? ship.x, shipEnd.y ?? ship.y);
         this.isTransitioning = false;
         onComplete(newObjects);
+        return;
+      }
+
+      this.scene.tweens.add({
+        targets: ship,
+        ...shipEnd,
+        duration: 300,
+        ease: 'Cubic.easeOut',
+        onComplete: () => {
+          this.isTransitioning = false;
+          onComplete(newObjects);
+        },
+      });
+    });
+  }
+
+  // Moving forward starts with all fragments hidden, moving back shows them all
+  private enterSlide(index: number, direction: 1 | -1): void {
+    this.currentSlideIndex = index;
+    this.fragmentStep = direction > 0 ? 0 : countFragments(this.slides[index]);
+  }
+
+  // Moves within a column sweep the camera vertically
+  private isVerticalMove(targetIndex: number): boolean {
+    return this.slides[targetIndex]?.column === this.getCurrentSlide()?.column;
+  }
+
+  // The slide in each room the camera passes on its way to the target, ending
+  // with the target. Within a column that is every sub-slide in between;
+  // across columns it is the top slide of each column, so sub-slides never
+  // end up in the horizontal sweep.
+  private sweepPath(targetIndex: number): number[] {
+    const start = this.currentSlideIndex;
+    const direction = targetIndex > start ? 1 : -1;
+    const path: number[] = [];
+
+    if (this.isVerticalMove(targetIndex)) {
+      for (let index = start + direction; index !== targetIndex; index += direction) path.push(index);
+    } else {
+      const fromColumn = this.slides[start].column;
+      const toColumn = this.slides[targetIndex].column;
+      for (let column = fromColumn + direction; column !== toColumn; column += direction) {
+        path.push(this.slides.findIndex((slide) => slide.column === column));
+      }
+    }
+    path.push(targetIndex);
+    return path;
+  }
+
+  // Run the transition effect of the slide we are moving to, sweeping through
+  // the rooms on `path`; onSwap is called once the old slide is out of view and
+  // the camera is back at rest. onStep reports each slide the camera sweeps
+  // past on longer jumps.
+  private playTransition(
+    targetIndex: number,
+    targetFragment: number,
+    camera: Phaser.Cameras.Scene2D.Camera,
+    duration: number,
+    path: number[],
+    onSwap: () => void,
+    onStep?: (index: number) => void
+  ): void {
+    const startIndex = this.currentSlideIndex;
+    const direction = targetIndex > startIndex ? 1 : -1;
+    const distance = path.length;
+    let lastStep = 0;
+
+    // Calm mode replaces every effect with a cut
+    const name = isCalmMode() ? 'cut' : this.slides[targetIndex].directives.transition ?? this.getDeckConfig().transition;
+    const effect = getTransition(name) ?? getTransition('slide')!;
+
+    const axis = this.isVerticalMove(targetIndex) ? 'vertical' : 'horizontal';
+
+    playSound('transition');
+    effect({
+      scene: this.scene,
+      camera,
+      direction,
+      axis,
+      distance,
+      duration,
+      width: this.roomWidth,
+      height: this.roomHeight,
+      swap: onSwap,
+      progress: (t) => {
+        const step = Math.round(Phaser.Math.Clamp(t, 0, 1) * distance);
+        if (onStep && step !== lastStep) {
+          lastStep = step;
+          onStep(step > 0 ? path[step - 1] : startIndex);
+        }
       },
+      showPassingRooms: () => this.drawPassingRooms(path, targetFragment, direction, axis),
     });
   }
 
+  // Plain copies of the slides a camera sweep passes, each in its room beside
+  // the current one: text, tables and code, without crystals or physics.
+  // Fragments stay hidden except on the target, as far as it will show them.
+  private drawPassingRooms(
+    path: number[],
+    targetFragment: number,
+    direction: 1 | -1,
+    axis: 'horizontal' | 'vertical'
+  ): () => void {
+    const objects: { destroy(): void }[] = [];
+
+    for (let step = 1; step <= path.length; step++) {
+      const slide = this.slides[path[step - 1]];
+      const visibleFragment = step === path.length ? targetFragment : 0;
+      const offsetX = axis === 'horizontal' ? this.roomWidth * direction * step : 0;
+      const offsetY = axis === 'vertical' ? this.roomHeight * direction * step : 0;
+
+      this.layout.layout(slide).forEach((layoutEl, index) => {
+        const slideEl = slide.elements[index];
+        if ((slideEl.fragment ?? 0) > visibleFragment) return;
+
+        const x = layoutEl.x + offsetX;
+        const y = layoutEl.y + offsetY;
+        if (slideEl.type === 'table' && slideEl.tableData) {
+          objects.push(new Table(this.scene, x, y, slideEl.tableData));
+        } else if (slideEl.type === 'code') {
+          objects.push(new CodeBlock(this.scene, x, y, slideEl.content, slideEl.language, layoutEl));
+        } else {
+          // Layout y is the middle of the first line
+          const text = this.scene.add.text(x, y - layoutEl.lineHeight / 2, stripRichText(layoutEl.content), {
+            fontSize: layoutEl.fontSize,
+            fontFamily: layoutEl.fontFamily,
+            fontStyle: layoutEl.fontStyle,
+            color: layoutEl.color,
+            align: layoutEl.align ?? 'left',
+          });
+          text.setOrigin(layoutEl.anchor === 'center' ? 0.5 : 0, 0);
+          objects.push(text);
+        }
+      });
+    }
+
+    return () => objects.forEach((object) => object.destroy());
+  }
+
   getTextObstacles(): TextObstacle[] {
     return this.textObstacles;
   }
@@ -308,7 +700,28 @@ export class SlideManager {
     return this.crystals;
   }
 
+  // Hide or show everything on the current slide (e.g. behind the overview).
+  // Fragment visibility is not restored - call showSlide() to rebuild the slide.
+  setSlideVisible(visible: boolean): void {
+    this.textObstacles.forEach((obstacle) => obstacle.setVisible(visible));
+    this.crystals.forEach((crystal) => crystal.setVisible(visible));
+    this.staticImages.forEach((staticImg) => staticImg.setVisible(visible));
+    this.tables.forEach((table) => table.setVisible(visible));
+    this.codeBlocks.forEach((codeBlock) => codeBlock.setVisible(visible));
+    this.portals.forEach((portal) => portal.setVisible(visible));
+  }
+
+  // Show a slide immediately, without a transition (deep links, history navigation)
+  showSlide(index: number, fragmentStep: number = 0): SlideObjects {
+    this.currentSlideIndex = Phaser.Math.Clamp(index, 0, Math.max(0, this.slides.length - 1));
+    this.fragmentStep = Phaser.Math.Clamp(fragmentStep, 0, this.getFragmentCount());
+    return this.createCurrentSlide();
+  }
+
   reloadCurrentSlide(): SlideObjects {
+    // The slide count may have shrunk while editing
+    this.currentSlideIndex = Math.min(this.currentSlideIndex, Math.max(0, this.slides.length - 1));
+    this.fragmentStep = Math.min(this.fragmentStep, this.getFragmentCount());
     this.clearCurrentSlide();
     return this.createCurrentSlide();
   }
@@ -0,0 +1,211 @@
+// Minimal YAML front matter support for slides.md
+// Handles the subset decks need: nested maps, scalars, and simple lists
+
+export type FrontMatterValue =
+  | string
+  | number
+  | boolean
+  | null
+  | FrontMatterValue[]
+  | { [key: string]: FrontMatterValue };
+
+export type FrontMatterData = { [key: string]: FrontMatterValue };
+
+export interface FrontMatterResult {
+  data: FrontMatterData;
+  body: string;
+}
+
+interface YamlLine {
+  indent: number;
+  text: string;
+}
+
+// Split a leading "---" block off the markdown. Returns empty data if there is none.
+// `knownKeys` are the top-level settings the caller understands.
+export function extractFrontMatter(markdown: string, knownKeys: string[]): FrontMatterResult {
+  const match = markdown.match(/^\uFEFF?\s*---[ \t]*\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+  if (!match) {
+    return { data: {}, body: markdown };
+  }
+
+  // A deck may also start with a slide separator, so the block only counts as
+  // front matter if it is all YAML and sets at least one known key.
+  // "# Agenda" followed by "Speaker: Jane" is a slide.
+  if (!looksLikeFrontMatter(match[1], knownKeys)) {
+    return { data: {}, body: markdown };
+  }
+
+  return {
+    data: parseYaml(match[1]),
+    body: markdown.slice(match[0].length),
+  };
+}
+
+function looksLikeFrontMatter(block: string, knownKeys: string[]): boolean {
+  let known = false;
+  for (const raw of block.split(/\r?\n/)) {
+    const text = raw.trimEnd();
+    const trimmed = text.trim();
+    if (trimmed === '' || trimmed.startsWith('#')) continue;
+
+    if (text === trimmed) {
+      // Top level: key: value
+      const keyMatch = trimmed.match(/^("[^"]*"|'[^']*'|[\w-]+)\s*:(?:\s|$)/);
+      if (!keyMatch) return false;
+      if (knownKeys.includes(unquote(keyMatch[1]))) known = true;
+    } else if (!/^(?:-(?:\s|$)|("[^"]*"|'[^']*'|[^:]+?)\s*:(?:\s|$))/.test(trimmed)) {
+      // Nested: key: value or a list item
+      return false;
+    }
+  }
+  return known;
+}
+
+export function parseYaml(source: string): FrontMatterData {
+  const lines: YamlLine[] = [];
+  for (const raw of source.split(/\r?\n/)) {
+    const text = stripComment(raw).trimEnd();
+    if (text.trim() === '') continue;
+    lines.push({ indent: text.length - text.trimStart().length, text: text.trim() });
+  }
+
+  const [value] = parseBlock(lines, 0, 0);
+  return value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+}
+
+// Parse all lines at the given indent (or deeper) starting at index
+function parseBlock(lines: YamlLine[], index: number, indent: number): [FrontMatterValue, number] {
+  if (index >= lines.length) return [null, index];
+
+  if (lines[index].text.startsWith('- ') || lines[index].text === '-') {
+    return parseList(lines, index, lines[index].indent);
+  }
+
+  const map: FrontMatterData = {};
+  let i = index;
+  while (i < lines.length && lines[i].indent >= indent) {
+    const line = lines[i];
+    const keyMatch = line.text.match(/^("[^"]*"|'[^']*'|[^:]+?)\s*:(?:\s+(.*))?$/);
+    if (!keyMatch) {
+      i++;
+      continue;
+    }
+
+    const key = unquote(keyMatch[1]);
+    const rest = keyMatch[2]?.trim() ?? '';
+    i++;
+
+    if (rest !== '') {
+      map[key] = parseScalar(rest);
+    } else if (i < lines.length && lines[i].indent > line.indent) {
+      const [child, next] = parseBlock(lines, i, lines[i].indent);
+      map[key] = child;
+      i = next;
+    } else if (i < lines.length && lines[i].indent === line.indent && lines[i].text.startsWith('-')) {
+      // Lists may sit at the same indent as their key
+      const [child, next] = parseList(lines, i, line.indent);
+      map[key] = child;
+      i = next;
+    } else {
+      map[key] = null;
+    }
+  }
+
+  return [map, i];
+}
+
+function parseList(lines: YamlLine[], index: number, indent: number): [FrontMatterValue[], number] {
+  const list: FrontMatterValue[] = [];
+  let i = index;
+  while (i < lines.length && lines[i].indent === indent && (lines[i].text.startsWith('- ') || lines[i].text === '-')) {
+    const item = lines[i].text.slice(1).trim();
+    i++;
+
+    if (item === '') {
+      if (i < lines.length && lines[i].indent > indent) {
+        const [child, next] = parseBlock(lines, i, lines[i].indent);
+        list.push(child);
+        i = next;
+      } else {
+        list.push(null);
+      }
+    } else if (/^[\w-]+\s*:(\s|$)/.test(item)) {
+      // "- key: value" starts an inline map; following deeper lines belong to it
+      const itemIndent = indent + 2;
+      const nested: YamlLine[] = [{ indent: itemIndent, text: item }];
+      while (i < lines.length && lines[i].indent > indent) {
+        nested.push(lines[i]);
+        i++;
+      }
+      const [child] = parseBlock(nested, 0, itemIndent);
+      list.push(child);
+    } else {
+      list.push(parseScalar(item));
+    }
+  }
+  return [list, i];
+}
+
+function parseScalar(text: string): FrontMatterValue {
+  if (text.startsWith('[') && text.endsWith(']')) {
+    const inner = text.slice(1, -1).trim();
+    return inner === '' ? [] : splitInline(inner).map((part) => parseScalar(part.trim()));
+  }
+  if ((text.startsWith('"') && text.endsWith('"')) || (text.startsWith("'") && text.endsWith("'"))) {
+    return unquote(text);
+  }
+  if (text === 'true' || text === 'yes' || text === 'on') return true;
+  if (text === 'false' || text === 'no' || text === 'off') return false;
+  if (text === 'null' || text === '~') return null;
+  if (/^-?\d+(\.\d+)?$/.test(text)) return parseFloat(text);
+  return text;
+}
+
+// Split "a, 'b, c', d" on top-level commas
+function splitInline(text: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  for (const ch of text) {
+    if (quote) {
+      if (ch === quote) quote = null;
+      current += ch;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+      current += ch;
+    } else if (ch === ',') {
+      parts.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+function unquote(text: string): string {
+  const trimmed = text.trim();
+  if (trimmed.length >= 2 && (trimmed[0] === '"' || trimmed[0] === "'") && trimmed.endsWith(trimmed[0])) {
+    return trimmed.slice(1, -1);
+  }
+  return trimmed;
+}
+
+// Remove "# comment" tails, but keep hex colors like #0a0a1a and anything inside quotes
+function stripComment(line: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+      if (/^#[0-9a-fA-F]{3,8}\b/.test(line.slice(i))) continue;
+      return line.slice(0, i);
+    }
+  }
+  return line;
+}
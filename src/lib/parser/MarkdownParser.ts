@@ -1,8 +1,14 @@
+import { ThemeConfig, ThemeOverrides } from '../../theme.config';
+import { extractFrontMatter, FrontMatterData, FrontMatterValue } from './FrontMatter';
+import { normalizeLanguage } from './SyntaxHighlighter';
+
 export interface SlideElement {
   type: 'heading' | 'bullet' | 'numbered' | 'paragraph' | 'code' | 'table';
   content: string;
   level?: number;
   number?: number;
+  fragment?: number;    // Reveal step (1-based) for {.fragment} elements
+  language?: string;    // For code: fence language, normalized (```yml -> yaml)
   // For tables: parsed rows (header row + data rows)
   tableData?: {
     headers: string[];
@@ -10,6 +16,12 @@ export interface SlideElement {
   };
 }
 
+// Trailing {.fragment} marks an element that is revealed step by step
+const FRAGMENT_MARKER = /\s*\{\.fragment\}\s*$/;
+
+// Trailing {#cluster-setup} on a heading names the slide for portals
+const SLIDE_ID_MARKER = /\s*\{#([\w-]+)\}\s*$/;
+
 // Convert markdown bold (**text**) to Phaser rich text ({b}text{/b})
 function convertBold(text: string): string {
   return text.replace(/\*\*([^*]+)\*\*/g, '{b}$1{/b}');
@@ -26,43 +38,297 @@ function convertItalic(text: string): string {
 export interface SlideImage {
   key: string;
   filename: string;
+  alt?: string;         // ![crystal: Dashboard screenshot](...) - for screen readers
   x?: number;           // Image display position
   y?: number;
   crystalX?: number;    // Crystal icon position (defaults to x/y if not set)
   crystalY?: number;
   width?: number;       // Image display size
   height?: number;
+  fragment?: number;    // Reveal step (1-based) for {.fragment} images
 }
 
 export interface StaticImage {
   type: 'static';
   filename: string;
+  alt?: string;
   x?: number;
   y?: number;
   width?: number;
   height?: number;
+  fragment?: number;
+}
+
+// Warp gate to a named slide: ![portal](#cluster-setup){x=300 y=500}
+export interface SlidePortal {
+  target: string;       // Slide ID without the #
+  label?: string;       // ![portal: Networking](#networking) - defaults to the target's heading
+  x?: number;
+  y?: number;
+  fragment?: number;
+}
+
+export type SlideLayout = 'default' | 'center' | 'two-column';
+export type SlideTransition = string; // Name of a registered transition effect
+export type SlideNavigation = 'free' | 'keys';
+
+// Per-slide overrides from <!-- slide: bg=#001020 layout=two-column transition=fade -->
+export interface SlideDirectives {
+  background?: string;          // Background color behind this slide
+  layout?: SlideLayout;         // How AutoLayout arranges the elements
+  transition?: SlideTransition; // Effect used when arriving at this slide
+  navigation?: SlideNavigation; // 'keys' disables fly-off-the-edge navigation
+  backdrop?: string;            // Background name (nebula, hexmesh, ...) or an image/video file
+  music?: string;               // Track for this slide instead of the deck's music ('none' for silence)
+  ambient?: string;             // Looping layer on top of the music, only on this slide
+  narration?: string;           // Played once on arrival; the music ducks while it plays
 }
 
 export interface Slide {
   elements: SlideElement[];
   images: SlideImage[];
   staticImages: StaticImage[];
+  portals: SlidePortal[];
+  directives: SlideDirectives;
+  id?: string;          // From {#id} on a heading - the target of portals
+  notes?: string;       // Speaker notes - never rendered on the slide
+  column: number;       // Horizontal position: one column per --- section
+  row: number;          // Vertical position in the column: 0 is the main path, -- adds sub-slides below
+}
+
+// Number of {.fragment} steps on a slide
+export function countFragments(slide: Slide): number {
+  const steps = [...slide.elements, ...slide.images, ...slide.staticImages, ...slide.portals].map((item) => item.fragment ?? 0);
+  return Math.max(0, ...steps);
+}
+
+const SLIDE_LAYOUTS: SlideLayout[] = ['default', 'center', 'two-column'];
+const SLIDE_NAVIGATIONS: SlideNavigation[] = ['free', 'keys'];
+
+// Parse "bg=#001020 layout=two-column" into typed directives, ignoring unknown keys
+function parseDirectives(attrs: string, into: SlideDirectives): void {
+  const pairs = attrs.matchAll(/([\w-]+)\s*[=:]\s*("[^"]*"|'[^']*'|\S+)/g);
+  for (const [, key, rawValue] of pairs) {
+    const value = rawValue.replace(/^["']|["']$/g, '');
+    switch (key) {
+      case 'bg':
+      case 'background':
+        into.background = value;
+        break;
+      case 'layout':
+        if ((SLIDE_LAYOUTS as string[]).includes(value)) into.layout = value as SlideLayout;
+        else console.warn(`Unknown slide layout "${value}"`);
+        break;
+      case 'transition':
+        // Checked against the transition registry when the slide is shown
+        into.transition = value;
+        break;
+      case 'backdrop':
+        // Checked against the background registry when the slide is shown
+        into.backdrop = value;
+        break;
+      case 'music':
+      case 'ambient':
+      case 'narration':
+        into[key] = value;
+        break;
+      case 'nav':
+      case 'navigation':
+        if ((SLIDE_NAVIGATIONS as string[]).includes(value)) into.navigation = value as SlideNavigation;
+        else console.warn(`Unknown slide navigation "${value}"`);
+        break;
+      default:
+        console.warn(`Unknown slide directive "${key}"`);
+    }
+  }
+}
+
+// Gameplay switches a deck can turn off in its front matter
+export interface GameOptions {
+  hud: boolean;         // Show the arcade HUD (score, level)
+  lasers: boolean;      // Allow shooting
+  hotReload: boolean;   // Poll slides.md for changes in dev mode
+}
+
+// Deck-level settings from the YAML front matter of slides.md
+export interface DeckConfig {
+  title?: string;
+  author?: string;
+  theme: ThemeOverrides;
+  themePreset?: string;        // Built-in look under the deck's theme overrides, e.g. 'light'
+  transition: SlideTransition; // Default for slides without a transition directive
+  duration?: number;           // Talk length in minutes, for the presenter timer
+  music?: string;              // Looping background track from public/sounds
+  canvas: {
+    width: number;
+    height: number;
+  };
+  game: GameOptions;
+}
+
+export const DEFAULT_DECK_CONFIG: DeckConfig = {
+  theme: {},
+  transition: 'slide',
+  canvas: { width: 1280, height: 720 },
+  game: { hud: true, lasers: true, hotReload: true },
+};
+
+function asMap(value: FrontMatterValue | undefined): FrontMatterData {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+}
+
+function asString(value: FrontMatterValue | undefined): string | undefined {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number') return String(value);
+  return undefined;
+}
+
+function asNumber(value: FrontMatterValue | undefined, fallback: number): number {
+  return typeof value === 'number' && value > 0 ? value : fallback;
+}
+
+function asBoolean(value: FrontMatterValue | undefined, fallback: boolean): boolean {
+  return typeof value === 'boolean' ? value : fallback;
+}
+
+type ThemeValue = string | number | boolean;
+
+function isThemeValue(value: FrontMatterValue | undefined): value is ThemeValue {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+}
+
+// Top-level front matter settings read by parseDeckConfig
+const FRONT_MATTER_KEYS = ['title', 'author', 'theme', 'transition', 'duration', 'music', 'canvas', 'game', 'fonts'];
+
+// --- starts a new column, -- stacks a sub-slide below the previous one.
+// Separators inside ``` code blocks belong to the code (multi-document YAML).
+function splitColumns(body: string): string[][] {
+  const columns: string[][] = [];
+  let column: string[] = [];
+  let section: string[] = [];
+  let inCodeBlock = false;
+
+  for (const line of body.split('\n')) {
+    if (line.startsWith('```')) inCodeBlock = !inCodeBlock;
+    if (!inCodeBlock && (line === '---' || line === '--')) {
+      column.push(section.join('\n'));
+      section = [];
+      if (line === '---') {
+        columns.push(column);
+        column = [];
+      }
+      continue;
+    }
+    section.push(line);
+  }
+  column.push(section.join('\n'));
+  columns.push(column);
+  return columns;
 }
 
 export class MarkdownParser {
+  private deckConfig: DeckConfig = DEFAULT_DECK_CONFIG;
+
   parse(markdown: string): Slide[] {
-    const slideTexts = markdown.split(/^---$/m).map((s) => s.trim());
-    return slideTexts.filter((s) => s.length > 0).map((text) => this.parseSlide(text));
+    const { data, body } = extractFrontMatter(markdown, FRONT_MATTER_KEYS);
+    this.deckConfig = this.parseDeckConfig(data);
+
+    const columns = splitColumns(body)
+      .map((column) => column.map((s) => s.trim()).filter((s) => s.length > 0))
+      .filter((column) => column.length > 0);
+
+    const slides = columns.flatMap((column, columnIndex) =>
+      column.map((text, row) => this.parseSlide(text, columnIndex, row))
+    );
+
+    const ids = new Set(slides.map((slide) => slide.id));
+    for (const portal of slides.flatMap((slide) => slide.portals)) {
+      if (!ids.has(portal.target)) console.warn(`Portal to unknown slide "#${portal.target}"`);
+    }
+    return slides;
+  }
+
+  // Deck settings from the front matter of the last parsed markdown
+  getDeckConfig(): DeckConfig {
+    return this.deckConfig;
+  }
+
+  private parseDeckConfig(data: FrontMatterData): DeckConfig {
+    const defaults = DEFAULT_DECK_CONFIG;
+    const canvas = asMap(data.canvas);
+    const game = asMap(data.game);
+
+    // Theme sections are copied as-is (string/number/boolean values, plus one
+    // level of nesting for groups like typography.h1)
+    const theme: ThemeOverrides = {};
+    const themeData = asMap(data.theme);
+    for (const [section, values] of Object.entries(themeData)) {
+      if (section === 'preset') continue;
+      const sectionValues: Record<string, ThemeValue | Record<string, ThemeValue>> = {};
+      for (const [key, value] of Object.entries(asMap(values))) {
+        if (isThemeValue(value)) {
+          sectionValues[key] = value;
+        } else if (Object.keys(asMap(value)).length > 0) {
+          const group: Record<string, ThemeValue> = {};
+          for (const [name, item] of Object.entries(asMap(value))) {
+            if (isThemeValue(item)) group[name] = item;
+          }
+          sectionValues[key] = group;
+        }
+      }
+      (theme as Record<string, typeof sectionValues>)[section] = sectionValues;
+    }
+
+    // Top-level "fonts:" is shorthand for theme.fonts
+    const fonts = asMap(data.fonts);
+    if (Object.keys(fonts).length > 0) {
+      const fontOverrides: Partial<ThemeConfig['fonts']> = { ...theme.fonts };
+      const heading = asString(fonts.heading);
+      const body = asString(fonts.body);
+      const code = asString(fonts.code);
+      if (heading) fontOverrides.heading = heading;
+      if (body) fontOverrides.body = body;
+      if (code) fontOverrides.code = code;
+      theme.fonts = fontOverrides;
+    }
+
+    return {
+      title: asString(data.title),
+      author: asString(data.author),
+      theme,
+      // "theme: light" picks a preset; "theme: { preset: light, ... }" adds overrides on top
+      themePreset: asString(data.theme) ?? asString(themeData.preset),
+      transition: asString(data.transition) ?? defaults.transition,
+      duration: typeof data.duration === 'number' && data.duration > 0 ? data.duration : undefined,
+      music: asString(data.music),
+      canvas: {
+        width: asNumber(canvas.width, defaults.canvas.width),
+        height: asNumber(canvas.height, defaults.canvas.height),
+      },
+      game: {
+        hud: asBoolean(game.hud, defaults.game.hud),
+        lasers: asBoolean(game.lasers, defaults.game.lasers),
+        hotReload: asBoolean(game.hotReload, defaults.game.hotReload),
+      },
+    };
   }
 
-  private parseSlide(text: string): Slide {
+  private parseSlide(text: string, column: number, row: number): Slide {
     const lines = text.split('\n');
     const elements: SlideElement[] = [];
     const images: SlideImage[] = [];
     const staticImages: StaticImage[] = [];
+    const portals: SlidePortal[] = [];
+    let id: string | undefined;
+
+    const notes: string[] = [];
+    const directives: SlideDirectives = {};
+    let fragmentCount = 0;
 
     let inCodeBlock = false;
     let codeContent: string[] = [];
+    let codeLanguage: string | undefined;
+    let codeFragment: number | undefined;
 
     for (let i = 0; i < lines.length; i++) {
       const line = lines[i];
@@ -73,11 +339,18 @@ export class MarkdownParser {
           elements.push({
             type: 'code',
             content: codeContent.join('\n'),
+            language: codeLanguage,
+            fragment: codeFragment,
           });
           codeContent = [];
           inCodeBlock = false;
         } else {
           inCodeBlock = true;
+          // ```yaml or ```bash {.fragment} - the first word names the language
+          const info = line.slice(3);
+          const language = info.replace(FRAGMENT_MARKER, '').trim().split(/\s+/)[0];
+          codeLanguage = language ? normalizeLanguage(language) : undefined;
+          codeFragment = FRAGMENT_MARKER.test(info) ? ++fragmentCount : undefined;
         }
         continue;
       }
@@ -90,13 +363,46 @@ export class MarkdownParser {
       // Skip empty lines
       if (line.trim() === '') continue;
 
-      // Crystal images: ![crystal](image.png){x=100 y=200}
+      // Speaker notes trailer: a line with just "Note:" or "Notes:" - everything
+      // below it belongs to the notes. Paragraphs like "Note: requires RBAC" stay on the slide.
+      if (/^Notes?:$/.test(line.trimEnd())) {
+        notes.push(lines.slice(i + 1).join('\n').trim());
+        break;
+      }
+
+      // Slide directives: <!-- slide: bg=#001020 layout=two-column -->
+      const directiveMatch = line.trim().match(/^<!--\s*slide:?\s*(.*?)\s*-->$/i);
+      if (directiveMatch) {
+        parseDirectives(directiveMatch[1], directives);
+        continue;
+      }
+
+      // Speaker notes block: <!-- notes ... -->
+      const noteBlockMatch = line.trim().match(/^<!--\s*notes?\b:?(.*)$/i);
+      if (noteBlockMatch) {
+        const blockLines: string[] = [];
+        let rest = noteBlockMatch[1];
+        while (!rest.includes('-->') && i < lines.length - 1) {
+          blockLines.push(rest);
+          i++;
+          rest = lines[i];
+        }
+        if (!rest.includes('-->')) {
+          console.warn('Unclosed <!-- notes comment: the rest of the slide is treated as notes');
+        }
+        blockLines.push(rest.split('-->')[0]);
+        notes.push(blockLines.join('\n').trim());
+        continue;
+      }
+
+      // Crystal images: ![crystal](image.png){x=100 y=200} or ![crystal: Alt text](image.png)
       // Trim line to handle trailing whitespace
-      const crystalImageMatch = line.trim().match(/^!\[crystal\]\(([^)]+)\)(?:\{([^}]+)\})?$/);
+      const crystalImageMatch = line.trim().match(/^!\[crystal(?::\s*([^\]]*))?\]\(([^)]+)\)(?:\{([^}]+)\})?$/);
       if (crystalImageMatch) {
-        const filename = crystalImageMatch[1].trim();
-        const attrs = crystalImageMatch[2] || '';
+        const filename = crystalImageMatch[2].trim();
+        const attrs = crystalImageMatch[3] || '';
         const image: SlideImage = { key: filename, filename };
+        if (crystalImageMatch[1]?.trim()) image.alt = crystalImageMatch[1].trim();
 
         // Parse attributes like x=100 y=200 (allow whitespace around = or :)
         const xMatch = attrs.match(/x\s*[=:]\s*(\d+)/);
@@ -112,17 +418,37 @@ export class MarkdownParser {
         if (crystalYMatch) image.crystalY = parseInt(crystalYMatch[1], 10);
         if (widthMatch) image.width = parseInt(widthMatch[1], 10);
         if (heightMatch) image.height = parseInt(heightMatch[1], 10);
+        if (/\.fragment\b/.test(attrs)) image.fragment = ++fragmentCount;
 
         images.push(image);
         continue;
       }
 
+      // Portals: ![portal](#slide-id){x=100 y=200} or ![portal: Label](#slide-id)
+      const portalMatch = line.trim().match(/^!\[portal(?::\s*([^\]]*))?\]\(#([\w-]+)\)(?:\{([^}]+)\})?$/);
+      if (portalMatch) {
+        const portal: SlidePortal = { target: portalMatch[2] };
+        const attrs = portalMatch[3] || '';
+
+        const xMatch = attrs.match(/x\s*[=:]\s*(\d+)/);
+        const yMatch = attrs.match(/y\s*[=:]\s*(\d+)/);
+
+        if (portalMatch[1]?.trim()) portal.label = portalMatch[1].trim();
+        if (xMatch) portal.x = parseInt(xMatch[1], 10);
+        if (yMatch) portal.y = parseInt(yMatch[1], 10);
+        if (/\.fragment\b/.test(attrs)) portal.fragment = ++fragmentCount;
+
+        portals.push(portal);
+        continue;
+      }
+
       // Static images: ![alt](image.png){x=100 y=200} - NOT crystal images
       const staticImageMatch = line.trim().match(/^!\[([^\]]*)\]\(([^)]+)\)(?:\{([^}]+)\})?$/);
       if (staticImageMatch && !line.includes('[crystal]')) {
         const filename = staticImageMatch[2].trim();
         const attrs = staticImageMatch[3] || '';
         const staticImg: StaticImage = { type: 'static', filename };
+        if (staticImageMatch[1].trim()) staticImg.alt = staticImageMatch[1].trim();
 
         // Parse attributes like x=100 y=200 w=100 h=100
         const xMatch = attrs.match(/x\s*[=:]\s*(\d+)/);
@@ -134,6 +460,7 @@ export class MarkdownParser {
         if (yMatch) staticImg.y = parseInt(yMatch[1], 10);
         if (widthMatch) staticImg.width = parseInt(widthMatch[1], 10);
         if (heightMatch) staticImg.height = parseInt(heightMatch[1], 10);
+        if (/\.fragment\b/.test(attrs)) staticImg.fragment = ++fragmentCount;
 
         staticImages.push(staticImg);
         continue;
@@ -175,6 +502,12 @@ export class MarkdownParser {
           }
         }
 
+        const idMatch = content.match(SLIDE_ID_MARKER);
+        if (idMatch) {
+          id ??= idMatch[1];
+          content = content.replace(SLIDE_ID_MARKER, '');
+        }
+
         elements.push({
           type: 'heading',
           content: convertItalic(content),
@@ -220,11 +553,13 @@ export class MarkdownParser {
           }
         }
 
-        elements.push({
+        const bullet: SlideElement = {
           type: 'bullet',
-          content: convertItalic(content),
+          content: convertItalic(content.replace(FRAGMENT_MARKER, '')),
           level: indent,
-        });
+        };
+        if (FRAGMENT_MARKER.test(content)) bullet.fragment = ++fragmentCount;
+        elements.push(bullet);
         continue;
       }
 
@@ -265,12 +600,14 @@ export class MarkdownParser {
           }
         }
 
-        elements.push({
+        const numbered: SlideElement = {
           type: 'numbered',
-          content: convertItalic(content),
+          content: convertItalic(content.replace(FRAGMENT_MARKER, '')),
           level: indent,
           number: parseInt(numberedMatch[2], 10),
-        });
+        };
+        if (FRAGMENT_MARKER.test(content)) numbered.fragment = ++fragmentCount;
+        elements.push(numbered);
         continue;
       }
 
@@ -354,12 +691,18 @@ export class MarkdownParser {
         }
       }
 
-      elements.push({
+      const paragraph: SlideElement = {
         type: 'paragraph',
-        content: convertItalic(content),
-      });
+        content: convertItalic(content.replace(FRAGMENT_MARKER, '')),
+      };
+      if (FRAGMENT_MARKER.test(content)) paragraph.fragment = ++fragmentCount;
+      elements.push(paragraph);
     }
 
-    return { elements, images, staticImages };
+    const slide: Slide = { elements, images, staticImages, portals, directives, column, row };
+    if (id) slide.id = id;
+    const noteText = notes.filter((n) => n.length > 0).join('\n\n');
+    if (noteText) slide.notes = noteText;
+    return slide;
   }
 }
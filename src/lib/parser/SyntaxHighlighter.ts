@@ -0,0 +1,200 @@
+// Splits the code in a fenced block into colored tokens. Each language is a
+// list of sticky regexes tried in order at the current position; whatever
+// none of them match is plain text. Good enough for slides - not a compiler.
+
+export type TokenType =
+  | 'plain'
+  | 'keyword'
+  | 'string'
+  | 'number'
+  | 'comment'
+  | 'type'
+  | 'function'
+  | 'key'
+  | 'variable'
+  | 'punctuation';
+
+export interface CodeToken {
+  text: string;
+  type: TokenType;
+}
+
+interface TokenRule {
+  type: TokenType;
+  pattern: RegExp; // Must use the sticky (y) flag
+}
+
+const WHITESPACE: TokenRule = { type: 'plain', pattern: /\s+/y };
+const DOUBLE_QUOTED: TokenRule = { type: 'string', pattern: /"(?:\\.|[^"\\\n])*"?/y };
+const SINGLE_QUOTED: TokenRule = { type: 'string', pattern: /'(?:\\.|[^'\\\n])*'?/y };
+const C_COMMENT: TokenRule = { type: 'comment', pattern: /\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/y };
+const HASH_COMMENT: TokenRule = { type: 'comment', pattern: /(?<=^|\s)#[^\n]*/my };
+const NUMBER: TokenRule = { type: 'number', pattern: /-?\b(?:0x[\da-f]+|\d+(?:\.\d+)?(?:e[+-]?\d+)?)\b/iy };
+const CAPITALIZED: TokenRule = { type: 'type', pattern: /\b[A-Z]\w*/y };
+const CALL: TokenRule = { type: 'function', pattern: /\b[A-Za-z_$][\w$]*(?=\s*\()/y };
+const IDENTIFIER: TokenRule = { type: 'plain', pattern: /[A-Za-z_$][\w$]*/y };
+
+function words(type: TokenType, list: string): TokenRule {
+  return { type, pattern: new RegExp(`\\b(?:${list.trim().split(/\s+/).join('|')})\\b`, 'y') };
+}
+
+const typescript: TokenRule[] = [
+  WHITESPACE,
+  C_COMMENT,
+  { type: 'string', pattern: /`(?:\\[\s\S]|[^`\\])*`?/y },
+  DOUBLE_QUOTED,
+  SINGLE_QUOTED,
+  NUMBER,
+  words(
+    'keyword',
+    `abstract as async await break case catch class const continue declare default delete do else enum
+     export extends false finally for from function get if implements import in instanceof interface
+     keyof let new null of private protected public readonly return set static super switch this throw
+     true try type typeof undefined var void while yield`
+  ),
+  words('type', 'any boolean never number object string symbol unknown'),
+  CALL,
+  CAPITALIZED,
+  IDENTIFIER,
+  { type: 'punctuation', pattern: /[{}()[\];,.<>:=+\-*/%!&|?^~@]+/y },
+];
+
+const go: TokenRule[] = [
+  WHITESPACE,
+  C_COMMENT,
+  { type: 'string', pattern: /`[^`]*`?/y },
+  DOUBLE_QUOTED,
+  SINGLE_QUOTED,
+  NUMBER,
+  words(
+    'keyword',
+    `break case chan const continue default defer else fallthrough false for func go goto if import
+     interface iota map nil package range return select struct switch true type var`
+  ),
+  words(
+    'type',
+    `any bool byte complex64 complex128 error float32 float64 int int8 int16 int32 int64 rune string
+     uint uint8 uint16 uint32 uint64 uintptr`
+  ),
+  CALL,
+  CAPITALIZED,
+  IDENTIFIER,
+  { type: 'punctuation', pattern: /[{}()[\];,.<>:=+\-*/%!&|^~]+/y },
+];
+
+const json: TokenRule[] = [
+  WHITESPACE,
+  { type: 'key', pattern: /"(?:\\.|[^"\\\n])*"(?=\s*:)/y },
+  DOUBLE_QUOTED,
+  NUMBER,
+  words('keyword', 'true false null'),
+  { type: 'punctuation', pattern: /[{}[\],:]/y },
+];
+
+const yaml: TokenRule[] = [
+  WHITESPACE,
+  HASH_COMMENT,
+  { type: 'punctuation', pattern: /^(?:---|\.\.\.)(?=\s|$)/my },
+  { type: 'key', pattern: /[^\s#:'"{}[\],&*!|>-][^\n#:]*?(?=\s*:(?:\s|$))/y },
+  DOUBLE_QUOTED,
+  SINGLE_QUOTED,
+  { type: 'variable', pattern: /[&*][\w-]+|![\w!/-]*/y },
+  { type: 'number', pattern: /-?\b\d+(?:\.\d+)?\b(?=\s*(?:#|$))/my },
+  { type: 'keyword', pattern: /\b(?:true|false|yes|no|on|off|null)\b(?=\s*(?:#|$))|~/imy },
+  { type: 'punctuation', pattern: /[-:|>{}[\],?]/y },
+  // Unquoted scalar: the rest of the line up to a trailing comment
+  { type: 'string', pattern: /[^\s#][^\n]*?(?=\s+#|\s*$)/my },
+];
+
+const bash: TokenRule[] = [
+  WHITESPACE,
+  // "$ kubectl ..." - the prompt of a recorded CLI session
+  { type: 'punctuation', pattern: /^[$>](?=\s)/my },
+  HASH_COMMENT,
+  DOUBLE_QUOTED,
+  SINGLE_QUOTED,
+  { type: 'variable', pattern: /\$(?:\{[^}\n]*\}?|\(|\w+|[@#?$!*-])/y },
+  words('keyword', 'case do done elif else esac fi for function if in then until while'),
+  // Flags: -n, --namespace, --output=yaml
+  { type: 'key', pattern: /(?<=\s)--?[\w-]+/y },
+  // The command: first word of a line, or after a pipe, &&, ; or then/do/else
+  { type: 'function', pattern: /(?<=(?:^|[|;&(]|\b(?:then|do|else))\s*(?:[$>]\s+)?)(?:sudo\s+)?[\w./-]+/my },
+  NUMBER,
+  { type: 'punctuation', pattern: /[|&;<>()]+|\\$/my },
+  { type: 'plain', pattern: /[^\s|&;<>()$"'#]+/y },
+];
+
+const LANGUAGES: Record<string, TokenRule[]> = { typescript, go, json, yaml, bash };
+
+// Names people put after ``` for the languages above
+const ALIASES: Record<string, string> = {
+  ts: 'typescript',
+  tsx: 'typescript',
+  js: 'typescript',
+  jsx: 'typescript',
+  javascript: 'typescript',
+  golang: 'go',
+  yml: 'yaml',
+  sh: 'bash',
+  shell: 'bash',
+  zsh: 'bash',
+  console: 'bash',
+  terminal: 'bash',
+};
+
+// ```TS, ```yml or ```shell -> typescript, yaml, bash. Unknown languages are
+// kept as written (lowercased) and shown without colors.
+export function normalizeLanguage(language: string): string {
+  const name = language.trim().toLowerCase();
+  return ALIASES[name] ?? name;
+}
+
+export function isHighlighted(language: string | undefined): boolean {
+  return language !== undefined && language in LANGUAGES;
+}
+
+// Tokens for each line of `code`. Adjacent tokens of the same type are merged
+// so a line turns into as few text objects as possible.
+export function highlight(code: string, language?: string): CodeToken[][] {
+  const rules = language ? LANGUAGES[language] : undefined;
+  const tokens: CodeToken[] = rules ? tokenize(code, rules) : [{ text: code, type: 'plain' }];
+
+  const lines: CodeToken[][] = [[]];
+  for (const token of tokens) {
+    token.text.split('\n').forEach((part, index) => {
+      if (index > 0) lines.push([]);
+      if (part === '') return;
+      const line = lines[lines.length - 1];
+      const last = line[line.length - 1];
+      if (last && (last.type === token.type || part.trim() === '')) {
+        last.text += part;
+      } else {
+        line.push({ text: part, type: token.type });
+      }
+    });
+  }
+  return lines;
+}
+
+function tokenize(code: string, rules: TokenRule[]): CodeToken[] {
+  const tokens: CodeToken[] = [];
+  let position = 0;
+  while (position < code.length) {
+    let matched = false;
+    for (const rule of rules) {
+      rule.pattern.lastIndex = position;
+      const match = rule.pattern.exec(code);
+      if (match && match[0].length > 0) {
+        tokens.push({ text: match[0], type: rule.type });
+        position += match[0].length;
+        matched = true;
+        break;
+      }
+    }
+    if (!matched) {
+      tokens.push({ text: code[position], type: 'plain' });
+      position++;
+    }
+  }
+  return tokens;
+}
@@ -0,0 +1,68 @@
+// Messages between the audience window (RoomScene) and the presenter console.
+// Both windows share an origin, so a BroadcastChannel is all the transport we need.
+
+export type PresenterMessage =
+  | { type: 'hello' }                                   // Presenter opened - asks for deck and state
+  | { type: 'deck'; markdown: string }                  // Audience loaded or reloaded slides.md
+  | { type: 'state'; index: number; fragment: number; score: number; themePreset: string | null } // Preset picked with T
+  | { type: 'navigate'; action: 'next' | 'prev' }       // Presenter pressed next/previous
+  | { type: 'goto'; index: number };                    // Presenter picked a slide
+
+function isIndex(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+// Drop anything that doesn't look like one of our messages - another tab on
+// the same origin could post to the channel too
+function isPresenterMessage(data: unknown): data is PresenterMessage {
+  if (typeof data !== 'object' || data === null) return false;
+  const message = data as Record<string, unknown>;
+  switch (message.type) {
+    case 'hello':
+      return true;
+    case 'deck':
+      return typeof message.markdown === 'string';
+    case 'state':
+      return (
+        isIndex(message.index) &&
+        isIndex(message.fragment) &&
+        Number.isFinite(message.score) &&
+        (message.themePreset === null || typeof message.themePreset === 'string')
+      );
+    case 'navigate':
+      return message.action === 'next' || message.action === 'prev';
+    case 'goto':
+      return isIndex(message.index);
+    default:
+      return false;
+  }
+}
+
+export class PresenterChannel {
+  private channel: BroadcastChannel;
+
+  constructor(onMessage: (message: PresenterMessage) => void) {
+    // One channel per deck, so two decks served from the same origin don't mix
+    this.channel = new BroadcastChannel(`slide-ship:${window.location.pathname}`);
+    this.channel.onmessage = (event: MessageEvent<unknown>) => {
+      if (isPresenterMessage(event.data)) onMessage(event.data);
+    };
+  }
+
+  send(message: PresenterMessage): void {
+    this.channel.postMessage(message);
+  }
+
+  // URL of the presenter console for this deck
+  static getPresenterUrl(): string {
+    return `${window.location.pathname}?presenter${window.location.hash}`;
+  }
+
+  static isPresenterWindow(): boolean {
+    return new URLSearchParams(window.location.search).has('presenter');
+  }
+
+  destroy(): void {
+    this.channel.close();
+  }
+}
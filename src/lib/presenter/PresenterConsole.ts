@@ -0,0 +1,287 @@
+import { countFragments, DeckConfig, MarkdownParser, Slide } from '../parser/MarkdownParser';
+import { PresenterChannel, PresenterMessage } from './PresenterChannel';
+import { applyThemePreset } from '../themes/ThemePresets';
+import { theme } from '../../theme.config';
+import { escapeHtml } from '../utils/html';
+
+// Presenter view in its own window: current and next slide, speaker notes,
+// timer and score. It has no game of its own - the audience window owns the
+// SlideManager, and this console follows its state and sends navigation back.
+
+const STYLES = `
+  body { display: block; overflow: hidden; background: #05050d; color: #ddd; font-family: sans-serif; }
+  .presenter { display: grid; grid-template-columns: 3fr 2fr; grid-template-rows: 3fr 2fr auto; gap: 16px; height: 100vh; padding: 16px; }
+  .presenter h2 { font: 700 12px monospace; letter-spacing: 2px; color: #668; margin-bottom: 6px; }
+  .presenter .panel { display: flex; flex-direction: column; min-height: 0; }
+  .presenter .side { display: grid; grid-template-rows: auto auto 1fr; gap: 16px; min-height: 0; }
+  .presenter .notes { grid-column: 1 / 3; overflow-y: auto; font-size: 22px; line-height: 1.5; white-space: pre-wrap; }
+  .presenter .bar { grid-column: 1 / 3; display: flex; gap: 12px; align-items: center; font-family: monospace; }
+  .presenter button { font: 700 16px monospace; padding: 8px 20px; background: #1a1a3a; color: #0ff; border: 1px solid #326ce5; cursor: pointer; }
+  .presenter .clock { font: 700 40px monospace; color: #0ff; }
+  .presenter .clock.over { color: #f44; }
+  .presenter .score { font: 700 28px monospace; color: #ff0; }
+  .preview { position: relative; container-type: inline-size; width: 100%; overflow: hidden; border: 1px solid #1a1a3a; padding: 3cqw 8cqw; }
+  .preview .pending { opacity: 0.3; }
+  .preview h1 { font-size: 4.4cqw; } .preview h2 { font-size: 3.1cqw; } .preview h3 { font-size: 2.5cqw; }
+  .preview p, .preview li, .preview td, .preview th { font-size: 1.9cqw; }
+  .preview pre { font-size: 1.6cqw; }
+  .preview .media { display: inline-block; margin: 1cqw; font-size: 1.4cqw; border: 1px dashed #326ce5; padding: 0.5cqw; }
+  .preview .media img { max-width: 20cqw; max-height: 12cqw; display: block; }
+  .preview table { border-collapse: collapse; } .preview td, .preview th { border: 1px solid #326ce5; padding: 0.3cqw 1cqw; }
+  .preview .end { display: flex; height: 100%; align-items: center; justify-content: center; font-size: 3cqw; color: #668; }
+`;
+
+// Phaser rich text ({b}/{i}) back to HTML
+function richTextToHtml(content: string): string {
+  return escapeHtml(content)
+    .replace(/\{(\/?)b\}/g, '<$1b>')
+    .replace(/\{(\/?)i\}/g, '<$1i>')
+    .replace(/\n/g, '<br>');
+}
+
+function formatTime(ms: number): string {
+  const totalSeconds = Math.floor(Math.abs(ms) / 1000);
+  const minutes = Math.floor(totalSeconds / 60).toString().padStart(2, '0');
+  const seconds = (totalSeconds % 60).toString().padStart(2, '0');
+  return `${ms < 0 ? '-' : ''}${minutes}:${seconds}`;
+}
+
+export class PresenterConsole {
+  private root: HTMLElement;
+  private channel: PresenterChannel;
+  private parser: MarkdownParser = new MarkdownParser();
+  private slides: Slide[] = [];
+  private deckConfig: DeckConfig | null = null;
+  private index: number = 0;
+  private fragment: number = 0;
+  private score: number = 0;
+  private themePreset: string | null = null; // Preset the audience window picked with T
+  private startedAt: number = Date.now();
+
+  private currentView!: HTMLElement;
+  private nextView!: HTMLElement;
+  private notesView!: HTMLElement;
+  private elapsedView!: HTMLElement;
+  private remainingView!: HTMLElement;
+  private scoreView!: HTMLElement;
+  private positionView!: HTMLElement;
+
+  constructor(parent: HTMLElement) {
+    const style = document.createElement('style');
+    style.textContent = STYLES;
+    document.head.appendChild(style);
+
+    this.root = document.createElement('div');
+    this.root.className = 'presenter';
+    parent.replaceChildren(this.root);
+    this.build();
+
+    this.channel = new PresenterChannel((message) => this.onMessage(message));
+    this.channel.send({ type: 'hello' });
+
+    window.addEventListener('keydown', (event) => this.onKeyDown(event));
+    window.setInterval(() => this.updateTimer(), 1000);
+    document.title = 'Presenter - Slide Ship';
+  }
+
+  private build(): void {
+    this.root.innerHTML = `
+      <div class="panel"><h2>CURRENT</h2><div class="preview" data-view="current"></div></div>
+      <div class="side">
+        <div class="panel"><h2>NEXT</h2><div class="preview" data-view="next"></div></div>
+        <div class="panel"><h2>TIME</h2><div class="clock" data-view="elapsed">00:00</div><div data-view="remaining"></div></div>
+        <div class="panel"><h2>SCORE</h2><div class="score" data-view="score">000000</div></div>
+      </div>
+      <div class="panel notes"><h2>NOTES</h2><div data-view="notes"></div></div>
+      <div class="bar">
+        <button data-action="prev">&larr; PREV</button>
+        <button data-action="next">NEXT &rarr;</button>
+        <button data-action="reset">RESET TIMER</button>
+        <span data-view="position"></span>
+      </div>
+    `;
+
+    const view = (name: string) => this.root.querySelector<HTMLElement>(`[data-view="${name}"]`)!;
+    this.currentView = view('current');
+    this.nextView = view('next');
+    this.notesView = view('notes');
+    this.elapsedView = view('elapsed');
+    this.remainingView = view('remaining');
+    this.scoreView = view('score');
+    this.positionView = view('position');
+
+    this.root.querySelector('[data-action="prev"]')!.addEventListener('click', () => this.navigate('prev'));
+    this.root.querySelector('[data-action="next"]')!.addEventListener('click', () => this.navigate('next'));
+    this.root.querySelector('[data-action="reset"]')!.addEventListener('click', () => this.resetTimer());
+  }
+
+  // Same theme as the audience window
+  private applyTheme(): void {
+    if (!this.deckConfig) return;
+    applyThemePreset(this.deckConfig.themePreset, this.deckConfig.theme, this.themePreset);
+  }
+
+  private onMessage(message: PresenterMessage): void {
+    switch (message.type) {
+      case 'deck':
+        this.slides = this.parser.parse(message.markdown);
+        this.deckConfig = this.parser.getDeckConfig();
+        this.applyTheme();
+        this.render();
+        break;
+      case 'state':
+        this.index = message.index;
+        this.fragment = message.fragment;
+        this.score = message.score;
+        if (message.themePreset !== this.themePreset) {
+          this.themePreset = message.themePreset;
+          this.applyTheme();
+        }
+        this.render();
+        break;
+    }
+  }
+
+  private onKeyDown(event: KeyboardEvent): void {
+    switch (event.key) {
+      case 'ArrowRight':
+      case 'PageDown':
+      case ' ':
+      case 'n':
+      case 'N':
+        this.navigate('next');
+        break;
+      case 'ArrowLeft':
+      case 'PageUp':
+      case 'p':
+      case 'P':
+        this.navigate('prev');
+        break;
+      case 'Home':
+        this.channel.send({ type: 'goto', index: 0 });
+        break;
+      case 'End':
+        this.channel.send({ type: 'goto', index: this.slides.length - 1 });
+        break;
+      case 'r':
+      case 'R':
+        this.resetTimer();
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  }
+
+  private navigate(action: 'next' | 'prev'): void {
+    this.channel.send({ type: 'navigate', action });
+  }
+
+  private resetTimer(): void {
+    this.startedAt = Date.now();
+    this.updateTimer();
+  }
+
+  private render(): void {
+    const slide = this.slides[this.index];
+    if (!slide) return;
+
+    const fragmentCount = countFragments(slide);
+    this.renderSlide(this.currentView, slide, this.fragment);
+
+    // Next step: the next fragment on this slide, or the next slide
+    if (this.fragment < fragmentCount) {
+      this.renderSlide(this.nextView, slide, this.fragment + 1);
+    } else if (this.slides[this.index + 1]) {
+      this.renderSlide(this.nextView, this.slides[this.index + 1], 0);
+    } else {
+      this.nextView.innerHTML = '<div class="end">END OF DECK</div>';
+      this.nextView.style.background = theme.background.color;
+    }
+
+    this.notesView.textContent = slide.notes ?? '';
+    this.scoreView.textContent = this.score.toString().padStart(6, '0');
+    const fragmentInfo = fragmentCount > 0 ? ` - fragment ${this.fragment} / ${fragmentCount}` : '';
+    this.positionView.textContent = `Slide ${this.index + 1} / ${this.slides.length}${fragmentInfo}`;
+    this.updateTimer();
+  }
+
+  // Simplified HTML rendering of a slide; fragments not yet revealed are dimmed
+  private renderSlide(view: HTMLElement, slide: Slide, fragmentStep: number): void {
+    const canvas = this.deckConfig?.canvas ?? { width: 1280, height: 720 };
+    view.style.aspectRatio = `${canvas.width} / ${canvas.height}`;
+    view.style.background = slide.directives.background ?? theme.background.color;
+
+    const pending = (fragment?: number) => (fragment !== undefined && fragment > fragmentStep ? ' class="pending"' : '');
+    const html: string[] = [];
+    let list: string | null = null;
+
+    for (const element of slide.elements) {
+      const listTag = element.type === 'bullet' ? 'ul' : element.type === 'numbered' ? 'ol' : null;
+      if (list && listTag !== list) {
+        html.push(`</${list}>`);
+        list = null;
+      }
+      if (listTag && !list) {
+        html.push(`<${listTag}>`);
+        list = listTag;
+      }
+
+      const content = richTextToHtml(element.content);
+      switch (element.type) {
+        case 'heading': {
+          const color = element.level === 1 ? theme.text.headingColor : theme.text.accentColor;
+          html.push(`<h${element.level ?? 1} style="color:${color}">${content}</h${element.level ?? 1}>`);
+          break;
+        }
+        case 'bullet':
+        case 'numbered':
+          html.push(`<li${pending(element.fragment)} style="color:${theme.text.bodyColor}">${content}</li>`);
+          break;
+        case 'code':
+          html.push(`<pre${pending(element.fragment)} style="color:${theme.text.accentColor}">${escapeHtml(element.content)}</pre>`);
+          break;
+        case 'table':
+          if (element.tableData) {
+            const header = element.tableData.headers.map((h) => `<th>${richTextToHtml(h)}</th>`).join('');
+            const rows = element.tableData.rows
+              .map((row) => `<tr>${row.map((cell) => `<td>${richTextToHtml(cell)}</td>`).join('')}</tr>`)
+              .join('');
+            html.push(`<table style="color:${theme.text.bodyColor}"><tr>${header}</tr>${rows}</table>`);
+          }
+          break;
+        default:
+          html.push(`<p${pending(element.fragment)} style="color:${theme.text.bodyColor}">${content}</p>`);
+      }
+    }
+    if (list) html.push(`</${list}>`);
+
+    const imageUrl = (filename: string) => escapeHtml(filename.startsWith('/') ? filename.slice(1) : filename);
+    for (const image of slide.images) {
+      html.push(`<span class="media${pending(image.fragment) ? ' pending' : ''}">&#9670; <img src="${imageUrl(image.filename)}" alt=""></span>`);
+    }
+    for (const image of slide.staticImages) {
+      html.push(`<span class="media${pending(image.fragment) ? ' pending' : ''}"><img src="${imageUrl(image.filename)}" alt=""></span>`);
+    }
+    for (const portal of slide.portals) {
+      const label = escapeHtml(portal.label ?? `#${portal.target}`);
+      html.push(`<span class="media${pending(portal.fragment) ? ' pending' : ''}">&#9711; ${label}</span>`);
+    }
+
+    view.innerHTML = html.join('');
+  }
+
+  private updateTimer(): void {
+    const elapsed = Date.now() - this.startedAt;
+    this.elapsedView.textContent = formatTime(elapsed);
+
+    const duration = this.deckConfig?.duration;
+    if (duration) {
+      const remaining = duration * 60 * 1000 - elapsed;
+      this.remainingView.textContent = `${formatTime(remaining)} remaining`;
+      this.elapsedView.classList.toggle('over', remaining < 0);
+    } else {
+      this.remainingView.textContent = '';
+    }
+  }
+}
@@ -0,0 +1,125 @@
+// WebSocket client for the dev-server relay (server/remoteRelay.ts). Phones and
+// other devices on the LAN send commands through the relay to the deck, and
+// the deck publishes its state for followers (?follow) to mirror.
+
+export const RELAY_PATH = '/__slide-ship/relay';
+
+export type RemoteCommand =
+  | { type: 'command'; command: 'next' | 'prev' | 'shoot' | 'blackout' }
+  | { type: 'command'; command: 'goto'; index: number }; // 0-based slide index
+
+// Everything a follower needs to mirror the presenter's deck
+export interface FollowState {
+  type: 'state';
+  index: number;
+  fragment: number;
+  ship: { x: number; y: number; rotation: number };
+  crystals: boolean[];  // Shattered state of each crystal on the slide
+  blackout: boolean;
+}
+
+export type RemoteMessage =
+  | RemoteCommand
+  | FollowState
+  | { type: 'follow' };  // A follower joined and needs the current state
+
+const COMMANDS = ['next', 'prev', 'shoot', 'blackout', 'goto'];
+
+function isIndex(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+// Anyone on the LAN can talk to the relay, so frames are checked field by
+// field before the deck acts on them. Returns null for anything malformed.
+function parseRemoteMessage(data: unknown): RemoteMessage | null {
+  if (typeof data !== 'string') return null;
+  let message: unknown;
+  try {
+    message = JSON.parse(data);
+  } catch {
+    return null;
+  }
+  if (!isRecord(message)) return null;
+
+  switch (message.type) {
+    case 'follow':
+      return { type: 'follow' };
+    case 'command':
+      if (typeof message.command !== 'string' || !COMMANDS.includes(message.command)) return null;
+      if (message.command === 'goto') {
+        return isIndex(message.index) ? { type: 'command', command: 'goto', index: message.index } : null;
+      }
+      return { type: 'command', command: message.command as 'next' | 'prev' | 'shoot' | 'blackout' };
+    case 'state': {
+      const { index, fragment, ship, crystals, blackout } = message;
+      if (!isIndex(index) || !isIndex(fragment) || typeof blackout !== 'boolean') return null;
+      if (!isRecord(ship) || ![ship.x, ship.y, ship.rotation].every(Number.isFinite)) return null;
+      if (!Array.isArray(crystals) || !crystals.every((c) => typeof c === 'boolean')) return null;
+      return {
+        type: 'state',
+        index,
+        fragment,
+        ship: { x: ship.x as number, y: ship.y as number, rotation: ship.rotation as number },
+        crystals,
+        blackout,
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+export class RemoteClient {
+  private socket: WebSocket | null = null;
+  private onMessage: (message: RemoteMessage) => void;
+  private onOpen: () => void;
+  private retryDelay: number = 1000;
+  private retryTimer: number | null = null;
+  private closed: boolean = false;
+
+  constructor(onMessage: (message: RemoteMessage) => void, onOpen: () => void = () => {}) {
+    this.onMessage = onMessage;
+    this.onOpen = onOpen;
+    this.connect();
+  }
+
+  private connect(): void {
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+    this.socket = new WebSocket(`${protocol}//${window.location.host}${RELAY_PATH}`);
+
+    this.socket.onopen = () => {
+      this.retryDelay = 1000;
+      this.onOpen();
+    };
+    this.socket.onmessage = (event: MessageEvent) => {
+      const message = parseRemoteMessage(event.data);
+      if (message) {
+        this.onMessage(message);
+      } else {
+        console.warn('Ignoring malformed remote message', event.data);
+      }
+    };
+    // Keep retrying with backoff - the relay comes and goes with the dev server
+    this.socket.onclose = () => {
+      if (this.closed) return;
+      this.retryTimer = window.setTimeout(() => this.connect(), this.retryDelay);
+      this.retryDelay = Math.min(this.retryDelay * 2, 30000);
+    };
+  }
+
+  send(message: RemoteMessage): void {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  destroy(): void {
+    this.closed = true;
+    if (this.retryTimer !== null) window.clearTimeout(this.retryTimer);
+    this.socket?.close();
+  }
+}
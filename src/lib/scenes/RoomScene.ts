@@ -1,12 +1,27 @@
 import Phaser from 'phaser';
 import { Starship } from '../sprites/Starship';
 import { TextObstacle } from '../sprites/TextObstacle';
-import { SlideManager } from '../managers/SlideManager';
+import { GoToSlideOptions, SlideManager, SlideObjects } from '../managers/SlideManager';
+import { HashRouter, SlideLocation } from '../managers/HashRouter';
 import { CrystalImage } from '../sprites/CrystalImage';
 import { StaticImage } from '../sprites/StaticImage';
 import { Table } from '../sprites/Table';
+import { CodeBlock } from '../sprites/CodeBlock';
+import { Portal } from '../sprites/Portal';
 import { ArcadeHUD } from '../sprites/ArcadeHUD';
-import { theme } from '../../theme.config';
+import { SlideOverview } from '../sprites/SlideOverview';
+import { PresenterChannel, PresenterMessage } from '../presenter/PresenterChannel';
+import { FollowState, RemoteClient, RemoteCommand, RemoteMessage } from '../remote/RemoteClient';
+import { PrintExport } from '../export/PrintExport';
+import { SlideCapture } from '../export/SlideCapture';
+import { SlideMirror } from '../accessibility/SlideMirror';
+import { audioManager } from '../managers/AudioManager';
+import { preloadSounds } from '../audio/SoundEffects';
+import { MusicPlayer } from '../audio/MusicPlayer';
+import { BackgroundManager } from '../managers/BackgroundManager';
+import { loadFonts } from '../layout/FontLoader';
+import { applyThemePreset, themePresets } from '../themes/ThemePresets';
+import { motionDuration, theme } from '../../theme.config';
 
 const SAMPLE_PRESENTATION = `
 # Welcome to Slide Ship
@@ -40,10 +55,31 @@ export class RoomScene extends Phaser.Scene {
   private crystals: CrystalImage[] = [];
   private staticImages: StaticImage[] = [];
   private tables: Table[] = [];
+  private codeBlocks: CodeBlock[] = [];
+  private portals: Portal[] = [];
   private customCursor!: Phaser.GameObjects.Graphics;
   private cursors!: Phaser.Types.Input.Keyboard.CursorKeys;
   private fireKey!: Phaser.Input.Keyboard.Key;
   private slideManager!: SlideManager;
+  private router!: HashRouter;
+  private pendingLocation: SlideLocation | null = null; // Back/forward during a transition
+  private presenter: PresenterChannel | null = null;
+  private remote: RemoteClient | null = null;
+  private blackout: Phaser.GameObjects.Rectangle | null = null;
+  private following: boolean = new URLSearchParams(window.location.search).has('follow');
+  private followState: FollowState | null = null;
+  private lastFollowPayload: string = '';
+  private lastFollowSentAt: number = 0;
+  private printExport: PrintExport | null = null;
+  private printPreview: boolean = new URLSearchParams(window.location.search).has('print');
+  private overview: SlideOverview | null = null;
+  private mirror!: SlideMirror;
+  private music!: MusicPlayer;
+  private slideNumberInput: string = '';
+  private slideNumberText: Phaser.GameObjects.Text | null = null;
+  private slideNumberTimer: Phaser.Time.TimerEvent | null = null;
+  private themePreset: string | null = null; // Picked with T instead of the deck's preset
+  private themeText: Phaser.GameObjects.Text | null = null;
   private hud!: ArcadeHUD;
   private loadingText!: Phaser.GameObjects.Text;
   private currentMarkdown: string = SAMPLE_PRESENTATION;
@@ -55,22 +91,57 @@ export class RoomScene extends Phaser.Scene {
   }
 
   create(): void {
-    this.createBackground();
-    this.createStarship();
-    this.setupInput();
-    this.createCustomCursor();
     this.showLoadingText();
-    this.loadSlides().then(() => {
+    this.loadSlides().then(async () => {
+      // Front matter decides canvas size and theme, so parse before drawing anything
+      this.slideManager = new SlideManager(this);
+      this.slideManager.loadMarkdown(this.currentMarkdown);
+      this.applyCanvasSize();
+      this.applyDeckConfig();
+      // Text is measured when it is created, so the fonts must be ready first
+      await loadFonts();
       this.hideLoadingText();
+      this.createBackground();
+      this.createStarship();
+      this.setupInput();
+      this.createCustomCursor();
       this.setupSlideManager();
       this.setupCollisions();
+      this.setupMirror();
+      this.setupMusic();
       this.createHUD();
+      this.setupPresenter();
+      this.setupRemote();
+      this.setupFollowMode();
+      this.setupPrintExport();
+      this.setupCaptureMode();
       this.startHotReload();
     });
   }
 
+  private applyCanvasSize(): void {
+    const { width, height } = this.slideManager.getDeckConfig().canvas;
+    if (this.scale.width !== width || this.scale.height !== height) {
+      this.scale.resize(width, height);
+    }
+    this.cameras.main.setSize(width, height);
+    this.physics.world.setBounds(0, 0, width, height);
+  }
+
+  // Apply theme overrides and document metadata from the deck's front matter
+  private applyDeckConfig(): void {
+    const config = this.slideManager.getDeckConfig();
+    applyThemePreset(config.themePreset, config.theme, this.themePreset);
+    preloadSounds();
+    this.cameras.main.setBackgroundColor(theme.background.color);
+
+    if (config.title) {
+      document.title = config.author ? `${config.title} - ${config.author}` : config.title;
+    }
+  }
+
   private showLoadingText(): void {
-    this.loadingText = this.add.text(640, 360, 'Loading...', {
+    this.loadingText = this.add.text(this.scale.width / 2, this.scale.height / 2, 'Loading...', {
       fontSize: '24px',
       fontFamily: 'monospace',
       color: '#00aaff',
@@ -104,7 +175,7 @@ export class RoomScene extends Phaser.Scene {
 
   private startHotReload(): void {
     // Poll for file changes every 2 seconds in dev mode
-    if (import.meta.env.DEV) {
+    if (import.meta.env.DEV && this.slideManager.getDeckConfig().game.hotReload) {
       this.time.addEvent({
         delay: 2000,
         callback: () => {
@@ -121,7 +192,7 @@ export class RoomScene extends Phaser.Scene {
       const response = await fetch('slides.md', { cache: 'no-cache', method: 'HEAD' });
       if (response.ok) {
         const newModified = response.headers.get('last-modified');
-        if (newModified && newModified !== this.lastModified && !this.slideManager.isInTransition()) {
+        if (newModified && newModified !== this.lastModified && !this.slideManager.isInTransition() && !this.overview) {
           console.log('slides.md changed, reloading...');
           await this.reloadSlides();
         }
@@ -134,9 +205,13 @@ export class RoomScene extends Phaser.Scene {
   private async reloadSlides(): Promise<void> {
     await this.loadSlides();
     this.slideManager.loadMarkdown(this.currentMarkdown);
+    this.applyDeckConfig();
+    await loadFonts();
     const objects = this.slideManager.reloadCurrentSlide();
-    this.refreshCollisions(objects.textObstacles, objects.crystals, objects.staticImages, objects.tables);
-    this.updateHUDSlideInfo();
+    this.hud.setVisible(this.slideManager.getDeckConfig().game.hud);
+    this.presenter?.send({ type: 'deck', markdown: this.currentMarkdown });
+    this.onSlideChanged(objects);
+    if (this.printPreview) this.showPrintPreview();
   }
 
   private addCrystalCollisions(crystal: CrystalImage): void {
@@ -177,6 +252,52 @@ export class RoomScene extends Phaser.Scene {
     );
   }
 
+  // Flying into a portal warps the ship to the portal's slide
+  private checkPortals(): void {
+    const ship = this.starship.getSprite();
+    const portal = this.portals.find((p) => p.contains(ship.x, ship.y));
+    if (!portal) return;
+
+    const index = this.slideManager.findSlideById(portal.getTarget());
+    if (index < 0 || index === this.slideManager.getCurrentSlideIndex()) return;
+
+    this.enterPortal(portal, index);
+  }
+
+  private enterPortal(portal: Portal, index: number): void {
+    const ship = this.starship.getSprite();
+    const shipBody = this.starship.getBody();
+    const gate = portal.getContainer();
+    shipBody.setVelocity(0, 0);
+    shipBody.setAcceleration(0, 0);
+    shipBody.enable = false;
+    this.portals = [];
+
+    // Ship shrinks into the gate, then reappears on the left of the new slide
+    this.tweens.add({
+      targets: ship,
+      x: gate.x,
+      y: gate.y,
+      scale: 0,
+      duration: motionDuration(400),
+      ease: 'Cubic.easeIn',
+      onComplete: () => {
+        const arrive = () => {
+          ship.setPosition(150, this.scale.height / 2);
+          shipBody.enable = true;
+          this.tweens.add({ targets: ship, scale: 1, duration: motionDuration(300), ease: 'Back.easeOut' });
+        };
+        this.hud.flashSlideNumber();
+        const total = this.slideManager.getTotalSlides();
+        const started = this.slideManager.goToSlide(index, this.cameras.main, (objects) => {
+          this.onSlideChanged(objects);
+          arrive();
+        }, { onStep: (step) => this.hud.setSlideInfo(step + 1, total) });
+        if (!started) arrive();
+      },
+    });
+  }
+
   private checkCloseButtonCollisions(): void {
     this.crystals.forEach((crystal) => {
       const closeBtn = crystal.getCloseButton();
@@ -229,138 +350,377 @@ export class RoomScene extends Phaser.Scene {
     return false;
   }
 
+  // Drawn behind every slide; slides can swap it with <!-- slide: backdrop=... -->
   private createBackground(): void {
-    const starCount = theme.background.starCount ?? 100;
-    for (let i = 0; i < starCount; i++) {
-      const x = Phaser.Math.Between(0, 1280);
-      const y = Phaser.Math.Between(0, 720);
-      const size = Phaser.Math.Between(1, 3);
-      
-      const star = this.add.circle(x, y, size, 0xffffff);
-      star.setAlpha(Phaser.Math.FloatBetween(0.05, 0.25));
+    const background = new BackgroundManager(this, () => this.music.duckMusic());
+    this.slideManager.setBackground(background);
+  }
 
-      this.tweens.add({
-        targets: star,
-        alpha: Phaser.Math.FloatBetween(0.03, 0.15),
-        duration: Phaser.Math.Between(2000, 5000),
-        yoyo: true,
-        repeat: -1,
-        ease: 'Sine.easeInOut',
-        delay: Phaser.Math.Between(0, 3000),
-      });
-    }
+  private createStarship(): void {
+    this.starship = new Starship(this, 200, this.scale.height / 2);
+    this.starship.getSprite().setDepth(1100); // Ship above HUD (depth 1000)
+  }
+
+  private setupSlideManager(): void {
+    // Start at the slide in the URL, e.g. #/5
+    this.router = new HashRouter((location) => this.jumpToLocation(location));
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => this.router.destroy());
+    const initial = this.router.getInitialLocation();
+    const objects = initial
+      ? this.slideManager.showSlide(initial.index, initial.fragment)
+      : this.slideManager.createCurrentSlide();
+    this.textObstacles = objects.textObstacles;
+    this.crystals = objects.crystals;
+    this.staticImages = objects.staticImages;
+    this.tables = objects.tables;
+    this.codeBlocks = objects.codeBlocks;
+    this.portals = objects.portals;
+  }
 
-    const gridGraphics = this.add.graphics();
-    gridGraphics.lineStyle(1, 0x1a1a3a, 0.3);
-    
-    for (let x = 0; x < 1280; x += 64) {
-      gridGraphics.lineBetween(x, 0, x, 720);
+  // Browser back/forward. During a transition the URL already shows the new
+  // location, so it is applied as soon as the transition ends.
+  private jumpToLocation(location: SlideLocation): void {
+    if (this.slideManager.isInTransition()) {
+      this.pendingLocation = location;
+      return;
     }
-    for (let y = 0; y < 720; y += 64) {
-      gridGraphics.lineBetween(0, y, 1280, y);
+    if (this.overview) {
+      this.overview.destroy();
+      this.overview = null;
     }
+    this.slideManager.goToSlide(
+      location.index,
+      this.cameras.main,
+      (objects) => this.onSlideChanged(objects),
+      { fragment: location.fragment, animate: false, remember: false }
+    );
+  }
+
+  // Animated jump to any slide; the HUD counts through the slides swept past
+  private navigateTo(index: number, options: GoToSlideOptions = {}): void {
+    if (!Number.isInteger(index) || this.slideManager.isInTransition() || this.overview) return;
+
+    const total = this.slideManager.getTotalSlides();
+    const started = this.slideManager.goToSlide(
+      index,
+      this.cameras.main,
+      (objects) => this.onSlideChanged(objects),
+      { ...options, onStep: (step) => this.hud.setSlideInfo(step + 1, total) }
+    );
+    if (started) this.hud.flashSlideNumber();
+  }
+
+  private navigateBack(): void {
+    const total = this.slideManager.getTotalSlides();
+    const started = this.slideManager.goBack(
+      this.cameras.main,
+      (objects) => this.onSlideChanged(objects),
+      { onStep: (step) => this.hud.setSlideInfo(step + 1, total) }
+    );
+    if (started) this.hud.flashSlideNumber();
+  }
+
+  // Called whenever a different slide is on screen
+  private onSlideChanged(objects: SlideObjects): void {
+    if (this.pendingLocation) {
+      const location = this.pendingLocation;
+      this.pendingLocation = null;
+      this.jumpToLocation(location); // Rebuilds the slide and calls back here
+      return;
+    }
+    this.refreshCollisions(objects.textObstacles, objects.crystals, objects.staticImages, objects.tables, objects.codeBlocks, objects.portals);
+    this.updateHUDSlideInfo();
+    this.syncLocation();
+    this.updateMusic();
+  }
+
+  // Publish the current slide and fragment to the URL and the presenter console
+  private syncLocation(): void {
+    this.router.update({
+      index: this.slideManager.getCurrentSlideIndex(),
+      fragment: this.slideManager.getFragmentStep(),
+    });
+    this.sendPresenterState();
+    this.sendFollowState(true);
+    this.updateMirror();
+  }
+
+  // Screen readers get an HTML copy of the slide, since the canvas has no text
+  private setupMirror(): void {
+    this.mirror = new SlideMirror();
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => this.mirror.destroy());
+    this.updateMirror();
+  }
+
+  private updateMirror(): void {
+    const index = this.slideManager.getCurrentSlideIndex();
+    const slide = this.slideManager.getSlides()[index];
+    if (!slide) return;
+    this.mirror.update(slide, index, this.slideManager.getTotalSlides(), this.slideManager.getFragmentStep());
+  }
+
+  // Deck music from the front matter, replaced or layered by slide directives
+  private setupMusic(): void {
+    this.music = new MusicPlayer();
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => this.music.destroy());
+    this.updateMusic();
+  }
+
+  private updateMusic(): void {
+    const index = this.slideManager.getCurrentSlideIndex();
+    const directives = this.slideManager.getSlides()[index]?.directives ?? {};
+    this.music.setSlide(index, {
+      music: directives.music ?? this.slideManager.getDeckConfig().music,
+      ambient: directives.ambient,
+      narration: directives.narration,
+    });
+  }
+
+  private setupPresenter(): void {
+    this.presenter = new PresenterChannel((message) => this.onPresenterMessage(message));
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => this.presenter?.destroy());
+    this.hud.setOnScoreChange(() => this.sendPresenterState());
+  }
 
-    this.scheduleShootingStar();
+  // ?print shows the handout instead of the game (&notes adds speaker notes).
+  // Printing the normal deck with Ctrl+P produces the same handout.
+  private setupPrintExport(): void {
+    if (this.printPreview) this.showPrintPreview();
+
+    const beforePrint = () => {
+      if (!this.printExport) this.createPrintExport().render();
+    };
+    const afterPrint = () => {
+      if (this.printPreview) return;
+      this.printExport?.destroy();
+      this.printExport = null;
+    };
+    window.addEventListener('beforeprint', beforePrint);
+    window.addEventListener('afterprint', afterPrint);
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => {
+      window.removeEventListener('beforeprint', beforePrint);
+      window.removeEventListener('afterprint', afterPrint);
+      this.printExport?.destroy();
+    });
+  }
+
+  // ?capture is used by the image export CLI: no ship, HUD or cursor on the slides
+  private setupCaptureMode(): void {
+    if (!SlideCapture.isCaptureMode()) return;
+
+    this.input.enabled = false;
+    this.input.keyboard!.enabled = false;
+    this.starship.getBody().enable = false;
+    this.starship.getSprite().setVisible(false);
+    this.customCursor.setVisible(false);
+    this.hud.setVisible(false);
+
+    const capture = new SlideCapture(this, this.slideManager, (objects) => this.onSlideChanged(objects));
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => capture.destroy());
   }
 
-  private scheduleShootingStar(): void {
-    const delay = Phaser.Math.Between(10000, 20000);
-    this.time.delayedCall(delay, () => {
-      this.createShootingStar();
-      this.scheduleShootingStar();
+  private createPrintExport(): PrintExport {
+    this.printExport?.destroy();
+    this.printExport = new PrintExport(this.slideManager.getSlides(), this.slideManager.getDeckConfig(), {
+      notes: new URLSearchParams(window.location.search).has('notes'),
     });
+    return this.printExport;
+  }
+
+  private showPrintPreview(): void {
+    this.createPrintExport().showPreview();
   }
 
-  private createShootingStar(): void {
-    const distance = Phaser.Math.Between(600, 1000);
-    
-    // Pick random edge to start from
-    const edge = Phaser.Math.Between(0, 3);
-    let startX: number, startY: number;
-    
-    switch (edge) {
-      case 0: // Top edge
-        startX = Phaser.Math.Between(-50, 1330);
-        startY = Phaser.Math.Between(-100, -20);
+  private openPresenterConsole(): void {
+    window.open(PresenterChannel.getPresenterUrl(), 'slide-ship-presenter', 'width=1280,height=800');
+  }
+
+  private onPresenterMessage(message: PresenterMessage): void {
+    switch (message.type) {
+      case 'hello':
+        this.presenter?.send({ type: 'deck', markdown: this.currentMarkdown });
+        this.sendPresenterState();
         break;
-      case 1: // Right edge
-        startX = Phaser.Math.Between(1300, 1380);
-        startY = Phaser.Math.Between(-50, 770);
+      case 'navigate':
+        if (message.action === 'next') this.goToNextSlide();
+        else this.goToPrevSlide();
         break;
-      case 2: // Bottom edge
-        startX = Phaser.Math.Between(-50, 1330);
-        startY = Phaser.Math.Between(740, 820);
+      case 'goto':
+        this.navigateTo(message.index);
         break;
-      default: // Left edge
-        startX = Phaser.Math.Between(-100, -20);
-        startY = Phaser.Math.Between(-50, 770);
+    }
+  }
+
+  // The relay only exists on the dev server (vite --host for LAN clickers)
+  private setupRemote(): void {
+    if (!import.meta.env.DEV) return;
+    this.remote = new RemoteClient(
+      (message) => this.onRemoteMessage(message),
+      () => {
+        // Ask the presenter's deck for its state as soon as we connect
+        if (this.following) this.remote?.send({ type: 'follow' });
+      }
+    );
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => this.remote?.destroy());
+  }
+
+  private onRemoteMessage(message: RemoteMessage): void {
+    switch (message.type) {
+      case 'follow':
+        this.sendFollowState(true);
+        break;
+      case 'state':
+        if (this.following) this.followState = message;
+        break;
+      case 'command':
+        // Followers mirror the presenter, who handles the clicker
+        if (!this.following) this.runRemoteCommand(message);
         break;
     }
-    
-    // Calculate direction towards center-ish area with some randomness
-    const centerX = 640 + Phaser.Math.Between(-200, 200);
-    const centerY = 360 + Phaser.Math.Between(-150, 150);
-    const baseAngle = Math.atan2(centerY - startY, centerX - startX);
-    const finalAngle = baseAngle + Phaser.Math.FloatBetween(-0.5, 0.5);
-    
-    const endX = startX + Math.cos(finalAngle) * distance;
-    const endY = startY + Math.sin(finalAngle) * distance;
-    const duration = Phaser.Math.Between(800, 1500);
-
-    const trailLength = 8;
-    const trail: Phaser.GameObjects.Arc[] = [];
-
-    for (let i = 0; i < trailLength; i++) {
-      const particle = this.add.circle(startX, startY, 2 - i * 0.2, 0xffffff);
-      particle.setAlpha(0.5 - i * 0.06);
-      particle.setDepth(-1);
-      trail.push(particle);
-    }
-
-    const head = trail[0];
-    
-    this.tweens.add({
-      targets: head,
-      x: endX,
-      y: endY,
-      duration: duration,
-      ease: 'Quad.easeIn',
-      onUpdate: () => {
-        for (let i = trail.length - 1; i > 0; i--) {
-          trail[i].setPosition(trail[i - 1].x, trail[i - 1].y);
-        }
-      },
-      onComplete: () => {
-        trail.forEach((p) => p.destroy());
-      },
+  }
+
+  private runRemoteCommand(message: RemoteCommand): void {
+    switch (message.command) {
+      case 'next':
+        this.goToNextSlide();
+        break;
+      case 'prev':
+        this.goToPrevSlide();
+        break;
+      case 'goto':
+        this.navigateTo(message.index);
+        break;
+      case 'shoot':
+        if (this.canShoot() && !this.slideManager.isInTransition()) this.starship.shoot();
+        break;
+      case 'blackout':
+        this.toggleBlackout();
+        break;
+    }
+  }
+
+  // Follower mode (?follow): mirror the presenter's deck through the relay,
+  // with this instance's own input switched off
+  private setupFollowMode(): void {
+    if (!this.following) return;
+
+    this.input.enabled = false;
+    this.input.keyboard!.enabled = false;
+    this.starship.getBody().enable = false;
+
+    const label = this.add.text(this.scale.width - 16, this.scale.height - 16, 'FOLLOWING', {
+      fontSize: '14px',
+      fontFamily: 'monospace',
+      color: theme.text.headingColor,
     });
+    label.setOrigin(1, 1);
+    label.setScrollFactor(0);
+    label.setDepth(1000);
+  }
 
-    this.tweens.add({
-      targets: trail,
-      alpha: 0,
-      duration: duration,
-      ease: 'Quad.easeIn',
+  // Publish slide, ship and crystal state for followers. Unchanged state is
+  // skipped, and ship movement is throttled to 20 updates a second.
+  private sendFollowState(force: boolean = false): void {
+    if (!this.remote || this.following) return;
+    if (!force && this.time.now - this.lastFollowSentAt < 50) return;
+
+    const ship = this.starship.getSprite();
+    const state: FollowState = {
+      type: 'state',
+      index: this.slideManager.getCurrentSlideIndex(),
+      fragment: this.slideManager.getFragmentStep(),
+      ship: { x: Math.round(ship.x), y: Math.round(ship.y), rotation: Math.round(ship.rotation * 100) / 100 },
+      crystals: this.crystals.map((crystal) => crystal.isActivated()),
+      blackout: this.blackout !== null,
+    };
+    const payload = JSON.stringify(state);
+    if (!force && payload === this.lastFollowPayload) return;
+
+    this.remote.send(state);
+    this.lastFollowPayload = payload;
+    this.lastFollowSentAt = this.time.now;
+  }
+
+  private updateFollower(): void {
+    const state = this.followState;
+    if (!state) return;
+
+    if (!this.slideManager.isInTransition()) {
+      if (state.index !== this.slideManager.getCurrentSlideIndex()) {
+        this.navigateTo(state.index, { fragment: state.fragment, remember: false });
+      } else {
+        this.followFragments(state.fragment);
+        this.followCrystals(state.crystals);
+      }
+    }
+
+    if (state.blackout !== (this.blackout !== null)) {
+      this.toggleBlackout();
+    }
+
+    // Ease towards the presenter's ship so 20 updates a second look smooth
+    const ship = this.starship.getSprite();
+    ship.setPosition(
+      Phaser.Math.Linear(ship.x, state.ship.x, 0.3),
+      Phaser.Math.Linear(ship.y, state.ship.y, 0.3)
+    );
+    ship.setRotation(ship.rotation + Phaser.Math.Angle.Wrap(state.ship.rotation - ship.rotation) * 0.3);
+  }
+
+  private followFragments(fragment: number): void {
+    let changed = false;
+    while (this.slideManager.getFragmentStep() < fragment && this.slideManager.nextFragment()) changed = true;
+    while (this.slideManager.getFragmentStep() > fragment && this.slideManager.prevFragment()) changed = true;
+    if (changed) this.syncLocation();
+  }
+
+  // Crystals animate one way at a time, so keep nudging until they match
+  private followCrystals(shattered: boolean[]): void {
+    this.crystals.forEach((crystal, index) => {
+      if (shattered[index] === undefined || shattered[index] === crystal.isActivated()) return;
+      if (shattered[index]) crystal.onCollision();
+      else crystal.triggerReform();
     });
   }
 
-  private createStarship(): void {
-    this.starship = new Starship(this, 200, 360);
-    this.starship.getSprite().setDepth(1100); // Ship above HUD (depth 1000)
+  // Black screen over everything, ship included, to pull attention to the speaker
+  private toggleBlackout(): void {
+    if (this.blackout) {
+      const blackout = this.blackout;
+      this.blackout = null;
+      this.tweens.add({
+        targets: blackout,
+        alpha: 0,
+        duration: motionDuration(200),
+        onComplete: () => blackout.destroy(),
+      });
+      return;
+    }
+
+    this.blackout = this.add.rectangle(0, 0, this.scale.width, this.scale.height, 0x000000);
+    this.blackout.setOrigin(0, 0);
+    this.blackout.setScrollFactor(0);
+    this.blackout.setDepth(2000); // Above HUD (1000) and ship (1100)
+    this.blackout.setAlpha(0);
+    this.tweens.add({ targets: this.blackout, alpha: 1, duration: motionDuration(200) });
   }
 
-  private setupSlideManager(): void {
-    this.slideManager = new SlideManager(this);
-    this.slideManager.loadMarkdown(this.currentMarkdown);
-    const objects = this.slideManager.createCurrentSlide();
-    this.textObstacles = objects.textObstacles;
-    this.crystals = objects.crystals;
-    this.staticImages = objects.staticImages;
-    this.tables = objects.tables;
+  private sendPresenterState(): void {
+    this.presenter?.send({
+      type: 'state',
+      index: this.slideManager.getCurrentSlideIndex(),
+      fragment: this.slideManager.getFragmentStep(),
+      score: this.hud.getScore(),
+      themePreset: this.themePreset,
+    });
   }
 
   private createHUD(): void {
     this.hud = new ArcadeHUD(this);
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => this.hud.destroy());
+    this.hud.setVisible(this.slideManager.getDeckConfig().game.hud);
     this.updateHUDSlideInfo();
+    this.syncLocation();
   }
 
   private updateHUDSlideInfo(): void {
@@ -393,10 +753,169 @@ export class RoomScene extends Phaser.Scene {
       this.goToPrevSlide();
     });
 
+    // Presenter console in a second window
+    const presenterKey = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.C);
+    presenterKey.on('down', () => {
+      this.openPresenterConsole();
+    });
+
+    // Blackout, also available from the remote
+    const blackoutKey = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.B);
+    blackoutKey.on('down', () => {
+      this.toggleBlackout();
+    });
+
+    // Sound: M mutes, - and = change the master volume
+    const muteKey = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.M);
+    muteKey.on('down', () => {
+      audioManager.toggleMute();
+    });
+
+    const volumeDownKey = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.MINUS);
+    volumeDownKey.on('down', () => {
+      audioManager.setVolume('master', audioManager.getSettings().master - 0.1);
+    });
+
+    const volumeUpKey = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.PLUS);
+    volumeUpKey.on('down', () => {
+      audioManager.setVolume('master', audioManager.getSettings().master + 0.1);
+    });
+
+    // T cycles through the theme presets, starting from the deck's own theme
+    const themeKey = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.T);
+    themeKey.on('down', () => {
+      this.cycleTheme();
+    });
+
+    // Overview mode: O toggles, Esc closes, Enter jumps to the thumbnail under the ship
+    const overviewKey = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.O);
+    overviewKey.on('down', () => {
+      this.toggleOverview();
+    });
+
+    const escKey = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.ESC);
+    escKey.on('down', () => {
+      if (this.slideNumberInput) {
+        this.clearSlideNumberInput();
+        return;
+      }
+      this.toggleOverview();
+    });
+
+    const enterKey = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.ENTER);
+    enterKey.on('down', () => {
+      if (this.slideNumberInput) {
+        this.submitSlideNumber();
+        return;
+      }
+      if (this.overview && this.overview.getHighlightedIndex() >= 0) {
+        this.closeOverview(this.overview.getHighlightedIndex());
+      }
+    });
+
+    // Home/End jump to the first and last slide
+    const homeKey = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.HOME);
+    homeKey.on('down', () => {
+      this.navigateTo(0);
+    });
+
+    const endKey = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.END);
+    endKey.on('down', () => {
+      this.navigateTo(this.slideManager.getTotalSlides() - 1);
+    });
+
+    // Type a slide number, then Enter to jump there
+    this.input.keyboard!.on('keydown', (event: KeyboardEvent) => {
+      if (/^[0-9]$/.test(event.key)) {
+        this.setSlideNumberInput(this.slideNumberInput + event.key);
+      } else if (event.key === 'Backspace' && this.slideNumberInput) {
+        this.setSlideNumberInput(this.slideNumberInput.slice(0, -1));
+      }
+    });
+
     // Mouse controls
     this.setupMouseInput();
   }
 
+  private cycleTheme(): void {
+    if (this.slideManager.isInTransition() || this.overview) return;
+
+    const names = [null, ...Object.keys(themePresets)];
+    this.themePreset = names[(names.indexOf(this.themePreset) + 1) % names.length];
+    this.applyDeckConfig();
+    loadFonts().then(() => {
+      this.onSlideChanged(this.slideManager.reloadCurrentSlide());
+      if (this.printPreview) this.showPrintPreview();
+      this.showThemeName(this.themePreset ?? 'deck');
+      this.sendPresenterState();
+    });
+  }
+
+  private showThemeName(name: string): void {
+    this.themeText?.destroy();
+    this.themeText = this.add.text(this.scale.width / 2, this.scale.height / 2, `THEME: ${name.toUpperCase()}`, {
+      fontSize: '48px',
+      fontFamily: theme.fonts.heading,
+      color: theme.text.headingColor,
+      backgroundColor: theme.background.color,
+      padding: { x: 24, y: 12 },
+    });
+    this.themeText.setOrigin(0.5);
+    this.themeText.setScrollFactor(0);
+    this.themeText.setDepth(1000);
+
+    const text = this.themeText;
+    this.time.delayedCall(1500, () => {
+      text.destroy();
+      if (this.themeText === text) this.themeText = null;
+    });
+  }
+
+  private setSlideNumberInput(value: string): void {
+    // Ignore leading zeros and numbers longer than any real deck
+    this.slideNumberInput = value.replace(/^0+/, '').slice(0, 4);
+    if (!this.slideNumberInput) {
+      this.clearSlideNumberInput();
+      return;
+    }
+
+    if (!this.slideNumberText) {
+      this.slideNumberText = this.add.text(this.scale.width / 2, this.scale.height / 2, '', {
+        fontSize: '48px',
+        fontFamily: theme.fonts.heading,
+        color: theme.text.headingColor,
+        backgroundColor: theme.background.color,
+        padding: { x: 24, y: 12 },
+      });
+      this.slideNumberText.setOrigin(0.5);
+      this.slideNumberText.setScrollFactor(0);
+      this.slideNumberText.setDepth(1000);
+    }
+    this.slideNumberText.setText(`GO TO ${this.slideNumberInput}_`);
+
+    // Forget a half-typed number after a few seconds
+    this.slideNumberTimer?.remove();
+    this.slideNumberTimer = this.time.delayedCall(3000, () => this.clearSlideNumberInput());
+  }
+
+  private clearSlideNumberInput(): void {
+    this.slideNumberInput = '';
+    this.slideNumberTimer?.remove();
+    this.slideNumberTimer = null;
+    this.slideNumberText?.destroy();
+    this.slideNumberText = null;
+  }
+
+  private submitSlideNumber(): void {
+    const index = parseInt(this.slideNumberInput, 10) - 1;
+    this.clearSlideNumberInput();
+    if (this.overview) {
+      this.closeOverview(Phaser.Math.Clamp(index, 0, this.slideManager.getTotalSlides() - 1));
+    } else {
+      this.navigateTo(index);
+    }
+  }
+
   private setupMouseInput(): void {
     // Track mouse movement to rotate ship
     this.input.on('pointermove', (pointer: Phaser.Input.Pointer) => {
@@ -406,7 +925,7 @@ export class RoomScene extends Phaser.Scene {
 
     // Left click to shoot
     this.input.on('pointerdown', (pointer: Phaser.Input.Pointer) => {
-      if (pointer.leftButtonDown()) {
+      if (pointer.leftButtonDown() && this.canShoot()) {
         this.starship.shoot();
       }
     });
@@ -499,11 +1018,13 @@ export class RoomScene extends Phaser.Scene {
     );
   }
 
-  private refreshCollisions(textObstacles: TextObstacle[], crystals: CrystalImage[], staticImages: StaticImage[], tables: Table[]): void {
+  private refreshCollisions(textObstacles: TextObstacle[], crystals: CrystalImage[], staticImages: StaticImage[], tables: Table[], codeBlocks: CodeBlock[], portals: Portal[]): void {
     this.textObstacles = textObstacles;
     this.crystals = crystals;
     this.staticImages = staticImages;
     this.tables = tables;
+    this.codeBlocks = codeBlocks;
+    this.portals = portals;
     textObstacles.forEach((obstacle) => {
       this.addObstacleCollisions(obstacle);
     });
@@ -515,71 +1036,164 @@ export class RoomScene extends Phaser.Scene {
   private checkSlideTransition(): void {
     if (this.slideManager.isInTransition()) return;
 
+    // Slides with nav=keys can only be left with N / P
+    if (this.slideManager.getCurrentSlide()?.directives.navigation === 'keys') return;
+
     const ship = this.starship.getSprite();
     const shipBody = this.starship.getBody();
 
-    // Go to next slide when hitting right edge
-    if (ship.x > 1250 && this.slideManager.canGoNext()) {
-      shipBody.setVelocity(0, 0);
+    // Hitting the right edge reveals the next fragment first, then bounces the ship back
+    if (ship.x > this.scale.width - 30 && this.slideManager.nextFragment()) {
+      this.syncLocation();
+      ship.setX(this.scale.width - 80);
+      shipBody.setVelocity(-200, 0);
       shipBody.setAcceleration(0, 0);
-      this.hud.flashSlideNumber();
-      this.slideManager.transitionToNext(
-        this.cameras.main,
-        this.starship,
-        (objects) => {
-          this.refreshCollisions(objects.textObstacles, objects.crystals, objects.staticImages, objects.tables);
-          this.updateHUDSlideInfo();
-        }
-      );
+      return;
     }
 
-    // Go to previous slide when hitting left edge
-    if (ship.x < 30 && this.slideManager.canGoPrev()) {
-      shipBody.setVelocity(0, 0);
-      shipBody.setAcceleration(0, 0);
-      this.hud.flashSlideNumber();
-      this.slideManager.transitionToPrev(
+    // Go to next column when hitting right edge
+    if (ship.x > this.scale.width - 30 && this.slideManager.getSlideRight() >= 0) {
+      this.flyOffEdge((camera, onComplete) => this.slideManager.transitionToNext(camera, this.starship, onComplete));
+    }
+
+    // Go to previous column when hitting left edge
+    if (ship.x < 30 && this.slideManager.getSlideLeft() >= 0) {
+      this.flyOffEdge((camera, onComplete) => this.slideManager.transitionToPrev(camera, this.starship, onComplete));
+    }
+
+    // Sub-slides are stacked below their column's main slide
+    if (ship.y > this.scale.height - 30 && this.slideManager.getSlideBelow() >= 0) {
+      this.flyOffEdge((camera, onComplete) => this.slideManager.transitionDown(camera, this.starship, onComplete));
+    }
+
+    if (ship.y < 30 && this.slideManager.getSlideAbove() >= 0) {
+      this.flyOffEdge((camera, onComplete) => this.slideManager.transitionUp(camera, this.starship, onComplete));
+    }
+  }
+
+  private flyOffEdge(
+    transition: (camera: Phaser.Cameras.Scene2D.Camera, onComplete: (objects: SlideObjects) => void) => void
+  ): void {
+    if (this.slideManager.isInTransition()) return;
+
+    const shipBody = this.starship.getBody();
+    shipBody.setVelocity(0, 0);
+    shipBody.setAcceleration(0, 0);
+    this.hud.flashSlideNumber();
+    transition(this.cameras.main, (objects) => this.onSlideChanged(objects));
+  }
+
+  private canShoot(): boolean {
+    // Shooting a thumbnail is how the overview picks a slide
+    return this.overview !== null || this.slideManager.getDeckConfig().game.lasers;
+  }
+
+  private toggleOverview(): void {
+    if (this.overview) {
+      this.closeOverview(this.slideManager.getCurrentSlideIndex());
+    } else {
+      this.openOverview();
+    }
+  }
+
+  private openOverview(): void {
+    if (!this.slideManager || this.slideManager.isInTransition() || this.slideManager.getTotalSlides() === 0) return;
+
+    this.slideManager.setSlideVisible(false);
+    this.starship.setTranslucent(false);
+    this.overview = new SlideOverview(
+      this,
+      this.slideManager.getSlides(),
+      this.slideManager.getCurrentSlideIndex()
+    );
+  }
+
+  // Zoom into the chosen thumbnail, then show that slide
+  private closeOverview(index: number): void {
+    const overview = this.overview;
+    if (!overview || overview.isAnimating()) return;
+
+    const isCurrent = index === this.slideManager.getCurrentSlideIndex();
+    const fragment = isCurrent ? this.slideManager.getFragmentStep() : 0;
+    if (!isCurrent) this.hud.flashSlideNumber();
+
+    overview.zoomInto(index, () => {
+      overview.destroy();
+      this.overview = null;
+      this.slideManager.goToSlide(
+        index,
         this.cameras.main,
-        this.starship,
-        (objects) => {
-          this.refreshCollisions(objects.textObstacles, objects.crystals, objects.staticImages, objects.tables);
-          this.updateHUDSlideInfo();
-        }
+        (objects) => this.onSlideChanged(objects),
+        { fragment, animate: false }
       );
-    }
+    });
+  }
+
+  // Highlight the thumbnail under the ship and jump to any thumbnail hit by a laser
+  private updateOverview(): void {
+    if (!this.overview) return;
+
+    const ship = this.starship.getSprite();
+    this.overview.setHighlighted(this.overview.getSlideIndexAt(ship.x, ship.y));
+
+    this.starship.getLasers().getChildren().forEach((laserObj) => {
+      const laser = laserObj as Phaser.GameObjects.Graphics;
+      if (!laser.active || !this.overview) return;
+
+      const index = this.overview.getSlideIndexAt(laser.x, laser.y);
+      if (index >= 0) {
+        laser.setActive(false);
+        laser.setVisible(false);
+        (laser.body as Phaser.Physics.Arcade.Body).enable = false;
+        this.closeOverview(index);
+      }
+    });
   }
 
   private goToNextSlide(): void {
-    if (this.slideManager.isInTransition() || !this.slideManager.canGoNext()) return;
+    if (this.slideManager.isInTransition() || this.overview) return;
+    if (this.slideManager.nextFragment()) {
+      this.syncLocation();
+      return;
+    }
+    if (!this.slideManager.canGoNext()) return;
 
     this.hud.flashSlideNumber();
     this.slideManager.transitionToNextWithKeyboard(
       this.cameras.main,
-      this.starship,
-      (objects) => {
-        this.refreshCollisions(objects.textObstacles, objects.crystals, objects.staticImages, objects.tables);
-        this.updateHUDSlideInfo();
-      }
+      (objects) => this.onSlideChanged(objects)
     );
   }
 
   private goToPrevSlide(): void {
-    if (this.slideManager.isInTransition() || !this.slideManager.canGoPrev()) return;
+    if (this.slideManager.isInTransition() || this.overview) return;
+    if (this.slideManager.prevFragment()) {
+      this.syncLocation();
+      return;
+    }
+    // Retrace the path actually taken (portals, jumps) before falling back to slide order
+    if (this.slideManager.canGoBack()) {
+      this.navigateBack();
+      return;
+    }
+    if (!this.slideManager.canGoPrev()) return;
 
     this.hud.flashSlideNumber();
     this.slideManager.transitionToPrevWithKeyboard(
       this.cameras.main,
-      this.starship,
-      (objects) => {
-        this.refreshCollisions(objects.textObstacles, objects.crystals, objects.staticImages, objects.tables);
-        this.updateHUDSlideInfo();
-      }
+      (objects) => this.onSlideChanged(objects)
     );
   }
 
   update(): void {
     if (!this.slideManager) return;
 
+    if (this.following) {
+      this.updateFollower();
+      this.updateShipTranslucency();
+      return;
+    }
+
     // Update custom cursor position
     if (this.customCursor) {
       this.customCursor.setPosition(0, 0);
@@ -587,12 +1201,12 @@ export class RoomScene extends Phaser.Scene {
 
     if (!this.slideManager.isInTransition()) {
       // Check if pointer is within the game play area (same bounds as ship movement)
-      // Ship can fly to world edges (0-1280, 0-720) and triggers slide change at edges
+      // Ship can fly to world edges (canvas size) and triggers slide change at edges
       const pointer = this.input.activePointer;
       const GAME_AREA_LEFT = 0;
-      const GAME_AREA_RIGHT = 1280;
+      const GAME_AREA_RIGHT = this.scale.width;
       const GAME_AREA_TOP = 0;
-      const GAME_AREA_BOTTOM = 720;
+      const GAME_AREA_BOTTOM = this.scale.height;
       const inGameArea = pointer.x >= GAME_AREA_LEFT && pointer.x <= GAME_AREA_RIGHT &&
                          pointer.y >= GAME_AREA_TOP && pointer.y <= GAME_AREA_BOTTOM;
       const pointerActive = this.isPointerOverCanvas && inGameArea;
@@ -605,15 +1219,24 @@ export class RoomScene extends Phaser.Scene {
 
       this.starship.update(this.cursors, pointerActive);
 
-      if (this.fireKey.isDown) {
+      if (this.fireKey.isDown && this.canShoot()) {
         this.starship.shoot();
       }
 
-      this.checkCloseButtonCollisions();
-      this.updateShipTranslucency();
+      if (this.overview) {
+        this.updateOverview();
+      } else {
+        this.checkCloseButtonCollisions();
+        this.checkPortals();
+        this.updateShipTranslucency();
+      }
+    }
+
+    if (!this.overview) {
+      this.checkSlideTransition();
     }
 
-    this.checkSlideTransition();
+    this.sendFollowState();
   }
 
   private updateShipTranslucency(): void {
@@ -651,6 +1274,7 @@ export class RoomScene extends Phaser.Scene {
     // Check overlap with static images
     if (!isOverContent) {
       for (const staticImg of this.staticImages) {
+        if (!staticImg.isVisible()) continue;
         const container = staticImg.getContainer();
         const distance = Phaser.Math.Distance.Between(ship.x, ship.y, container.x, container.y);
         const threshold = Math.max(staticImg.getDimensions().width, staticImg.getDimensions().height) / 2 + 30;
@@ -661,12 +1285,12 @@ export class RoomScene extends Phaser.Scene {
       }
     }
 
-    // Check overlap with tables
+    // Check overlap with tables and code blocks
     if (!isOverContent) {
-      for (const table of this.tables) {
-        const container = table.getContainer();
-        const dims = table.getDimensions();
-        // Table origin is at top-left, check if ship is within table bounds
+      for (const block of [...this.tables, ...this.codeBlocks]) {
+        const container = block.getContainer();
+        const dims = block.getDimensions();
+        // Origin is at top-left, check if ship is within the bounds
         const halfWidth = dims.width / 2;
         const halfHeight = dims.height / 2;
         const centerX = container.x + halfWidth;
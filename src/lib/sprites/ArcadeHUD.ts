@@ -1,4 +1,8 @@
 import Phaser from 'phaser';
+import { isCalmMode, onThemeChange, theme } from '../../theme.config';
+import { audioManager, AudioSettings } from '../managers/AudioManager';
+import { playSound } from '../audio/SoundEffects';
+import { parseHexColor } from '../utils/color';
 
 export class ArcadeHUD {
   private scene: Phaser.Scene;
@@ -7,24 +11,42 @@ export class ArcadeHUD {
   private topScoreText!: Phaser.GameObjects.Text;
   private slideText!: Phaser.GameObjects.Text;
   private crystalCountText!: Phaser.GameObjects.Text;
+  private soundText!: Phaser.GameObjects.Text;
+  private removeAudioListener: () => void;
+  private removeThemeListener: () => void;
   private lifeIcons: Phaser.GameObjects.Graphics[] = [];
+  private blinkTimer: Phaser.Time.TimerEvent | null = null;
+  private slideInfo = { current: 1, total: 1 };
 
   private score: number = 0;
   private crystalsShattered: number = 0;
-
-  // Arcade colors
-  private readonly COLOR_SCORE = '#ffff00'; // Yellow
-  private readonly COLOR_CRYSTAL = '#00ffff'; // Cyan
-  private readonly COLOR_LIVES = '#ff4444'; // Red
-  private readonly COLOR_TEXT = '#ffffff'; // White
+  private onScoreChange: ((score: number) => void) | null = null;
 
   constructor(scene: Phaser.Scene) {
     this.scene = scene;
     this.createHUD();
+    this.removeAudioListener = audioManager.onChange((settings) => this.updateSoundDisplay(settings, true));
+    this.removeThemeListener = onThemeChange(() => this.redraw());
+  }
+
+  // Rebuild in the new theme's colors, keeping score, counters and visibility
+  private redraw(): void {
+    const visible = this.container.visible;
+    this.blinkTimer?.remove();
+    this.blinkTimer = null;
+    this.scene.tweens.killTweensOf([this.scoreText, this.crystalCountText, this.slideText, this.soundText]);
+    this.container.destroy();
+    this.lifeIcons = [];
+
+    this.createHUD();
+    this.container.setVisible(visible);
+    this.updateScoreDisplay();
+    this.crystalCountText.setText(this.crystalsShattered.toString());
+    this.setSlideInfo(this.slideInfo.current, this.slideInfo.total);
   }
 
   private createHUD(): void {
-    const width = 1280;
+    const width = this.scene.scale.width;
     const height = 40;
     const y = 10;
 
@@ -34,7 +56,7 @@ export class ArcadeHUD {
 
     // Main bar background (no border)
     const bg = this.scene.add.graphics();
-    bg.fillStyle(0x0a0a1a, 0.9);
+    bg.fillStyle(parseHexColor(theme.hud.backgroundColor), 0.9);
     bg.fillRect(0, y, width, height);
     this.container.add(bg);
 
@@ -54,7 +76,7 @@ export class ArcadeHUD {
     const livesLabel = this.scene.add.text(livesX - 20, livesY - 15, 'LIVES', {
       fontSize: '10px',
       fontFamily: 'monospace',
-      color: this.COLOR_LIVES,
+      color: theme.hud.livesColor,
     });
     livesLabel.setOrigin(0.5, 0);
     this.container.add(livesLabel);
@@ -67,6 +89,26 @@ export class ArcadeHUD {
       this.container.add(icon);
     }
 
+    // === SOUND ===
+    const soundX = 160;
+
+    const soundLabel = this.scene.add.text(soundX, y + 8, 'SOUND', {
+      fontSize: '10px',
+      fontFamily: 'monospace',
+      color: theme.hud.labelColor,
+    });
+    soundLabel.setOrigin(0.5, 0);
+    this.container.add(soundLabel);
+
+    this.soundText = this.scene.add.text(soundX, y + 22, '', {
+      fontSize: '16px',
+      fontFamily: 'monospace',
+      color: theme.hud.textColor,
+    });
+    this.soundText.setOrigin(0.5, 0);
+    this.container.add(this.soundText);
+    this.updateSoundDisplay(audioManager.getSettings(), false);
+
     // === CENTER: SLIDE INFO ===
     const centerX = width / 2;
 
@@ -74,7 +116,7 @@ export class ArcadeHUD {
     const slideLabel = this.scene.add.text(centerX, y + 8, 'LEVEL', {
       fontSize: '10px',
       fontFamily: 'monospace',
-      color: '#888888',
+      color: theme.hud.labelColor,
     });
     slideLabel.setOrigin(0.5, 0);
     this.container.add(slideLabel);
@@ -83,7 +125,7 @@ export class ArcadeHUD {
     this.slideText = this.scene.add.text(centerX, y + 22, '01 / 01', {
       fontSize: '16px',
       fontFamily: 'monospace',
-      color: this.COLOR_TEXT,
+      color: theme.hud.textColor,
       fontStyle: 'bold',
     });
     this.slideText.setOrigin(0.5, 0);
@@ -96,7 +138,7 @@ export class ArcadeHUD {
     const topLabel = this.scene.add.text(scoreX - 60, y + 8, 'HI', {
       fontSize: '10px',
       fontFamily: 'monospace',
-      color: '#ff6600',
+      color: theme.hud.hiScoreColor,
     });
     topLabel.setOrigin(0.5, 0);
     this.container.add(topLabel);
@@ -104,7 +146,7 @@ export class ArcadeHUD {
     this.topScoreText = this.scene.add.text(scoreX - 60, y + 22, '050000', {
       fontSize: '16px',
       fontFamily: 'monospace',
-      color: '#ff6600',
+      color: theme.hud.hiScoreColor,
     });
     this.topScoreText.setOrigin(0.5, 0);
     this.container.add(this.topScoreText);
@@ -113,7 +155,7 @@ export class ArcadeHUD {
     const scoreLabel = this.scene.add.text(scoreX, y + 8, 'SCORE', {
       fontSize: '10px',
       fontFamily: 'monospace',
-      color: this.COLOR_SCORE,
+      color: theme.hud.scoreColor,
     });
     scoreLabel.setOrigin(0.5, 0);
     this.container.add(scoreLabel);
@@ -121,7 +163,7 @@ export class ArcadeHUD {
     this.scoreText = this.scene.add.text(scoreX, y + 22, '000000', {
       fontSize: '16px',
       fontFamily: 'monospace',
-      color: this.COLOR_SCORE,
+      color: theme.hud.scoreColor,
       fontStyle: 'bold',
     });
     this.scoreText.setOrigin(0.5, 0);
@@ -132,7 +174,7 @@ export class ArcadeHUD {
 
     // Crystal icon (small)
     const crystalIcon = this.scene.add.graphics();
-    crystalIcon.fillStyle(0x00ffff, 1);
+    crystalIcon.fillStyle(parseHexColor(theme.hud.crystalColor), 1);
     // Draw small diamond shape
     crystalIcon.beginPath();
     crystalIcon.moveTo(0, -6);
@@ -147,13 +189,14 @@ export class ArcadeHUD {
     this.crystalCountText = this.scene.add.text(crystalX, y + 28, '0', {
       fontSize: '12px',
       fontFamily: 'monospace',
-      color: this.COLOR_CRYSTAL,
+      color: theme.hud.crystalColor,
     });
     this.crystalCountText.setOrigin(0.5, 0);
     this.container.add(this.crystalCountText);
 
     // Blink animation for score
-    this.scene.time.addEvent({
+    if (isCalmMode()) return;
+    this.blinkTimer = this.scene.time.addEvent({
       delay: 500,
       callback: () => {
         this.scoreText.setAlpha(this.scoreText.alpha === 1 ? 0.9 : 1);
@@ -178,7 +221,7 @@ export class ArcadeHUD {
     }
 
     // Fill
-    g.fillStyle(0x326ce5, 1);
+    g.fillStyle(parseHexColor(theme.hud.shipColor), 1);
     g.beginPath();
     g.moveTo(points[0].x, points[0].y);
     for (let i = 1; i < points.length; i++) {
@@ -200,11 +243,19 @@ export class ArcadeHUD {
     return g;
   }
 
+  // Called with the new score whenever points are added
+  setOnScoreChange(callback: (score: number) => void): void {
+    this.onScoreChange = callback;
+  }
+
   addScore(points: number): void {
     this.score += points;
     this.updateScoreDisplay();
+    this.onScoreChange?.(this.score);
+    playSound('score');
 
     // Pulse animation on score
+    if (isCalmMode()) return;
     this.scene.tweens.add({
       targets: this.scoreText,
       scaleX: 1.2,
@@ -214,6 +265,10 @@ export class ArcadeHUD {
     });
   }
 
+  getScore(): number {
+    return this.score;
+  }
+
   private updateScoreDisplay(): void {
     this.scoreText.setText(this.score.toString().padStart(6, '0'));
   }
@@ -223,6 +278,7 @@ export class ArcadeHUD {
     this.crystalCountText.setText(this.crystalsShattered.toString());
 
     // Pulse animation
+    if (isCalmMode()) return;
     this.scene.tweens.add({
       targets: this.crystalCountText,
       scaleX: 1.3,
@@ -233,6 +289,7 @@ export class ArcadeHUD {
   }
 
   setSlideInfo(current: number, total: number): void {
+    this.slideInfo = { current, total };
     this.slideText.setText(
       `${current.toString().padStart(2, '0')} / ${total.toString().padStart(2, '0')}`
     );
@@ -242,6 +299,7 @@ export class ArcadeHUD {
   // Visual effect when transitioning slides
   flashSlideNumber(): void {
     this.slideText.setAlpha(1);
+    if (isCalmMode()) return;
     this.scene.tweens.add({
       targets: this.slideText,
       alpha: 0,
@@ -254,7 +312,29 @@ export class ArcadeHUD {
     });
   }
 
+  // Master volume in percent, or MUTE
+  private updateSoundDisplay(settings: AudioSettings, highlight: boolean): void {
+    this.soundText.setText(settings.muted ? 'MUTE' : `${Math.round(settings.master * 100)}%`);
+    this.soundText.setColor(settings.muted ? theme.hud.livesColor : theme.hud.textColor);
+
+    if (!highlight || isCalmMode()) return;
+    this.scene.tweens.add({
+      targets: this.soundText,
+      scaleX: 1.2,
+      scaleY: 1.2,
+      duration: 100,
+      yoyo: true,
+    });
+  }
+
+  setVisible(visible: boolean): void {
+    this.container.setVisible(visible);
+  }
+
   destroy(): void {
+    this.removeAudioListener();
+    this.removeThemeListener();
+    this.blinkTimer?.remove();
     this.container.destroy();
   }
 }
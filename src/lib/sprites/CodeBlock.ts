@@ -0,0 +1,149 @@
+import Phaser from 'phaser';
+import { theme } from '../../theme.config';
+import { highlight, isHighlighted, TokenType } from '../parser/SyntaxHighlighter';
+import { parseHexColor } from '../utils/color';
+
+// Theme color for a token (also used by the print export)
+export function tokenColor(type: TokenType): string {
+  switch (type) {
+    case 'keyword':
+      return theme.code.keywordColor;
+    case 'string':
+      return theme.code.stringColor;
+    case 'number':
+      return theme.code.numberColor;
+    case 'comment':
+      return theme.code.commentColor;
+    case 'type':
+      return theme.code.typeColor;
+    case 'function':
+      return theme.code.functionColor;
+    case 'key':
+      return theme.code.keyColor;
+    case 'variable':
+      return theme.code.variableColor;
+    case 'punctuation':
+      return theme.code.punctuationColor;
+    default:
+      return theme.code.color;
+  }
+}
+
+export interface CodeBlockStyle {
+  fontSize: string;
+  fontFamily: string;
+  lineHeight: number;
+  maxWidth?: number; // Defaults to the canvas width minus layout padding
+}
+
+// A fenced code block: syntax-colored lines on a framed panel, with the
+// language on a tab in the top-right corner. Like tables, the origin is the
+// top-left corner and the ship flies over it instead of bumping into it.
+export class CodeBlock {
+  private scene: Phaser.Scene;
+  private container: Phaser.GameObjects.Container;
+  private backgroundGraphics: Phaser.GameObjects.Graphics;
+  private textObjects: Phaser.GameObjects.Text[] = [];
+  private totalWidth: number = 0;
+  private totalHeight: number = 0;
+
+  // Styling
+  private readonly PADDING_X = 16;
+  private readonly PADDING_Y = 10;
+  private readonly MIN_WIDTH = 200;
+  private readonly TAB = '    '; // Tabs are drawn as four spaces
+  private readonly MAX_WIDTH: number;
+  private readonly BG_COLOR = parseHexColor(theme.code.backgroundColor);
+  private readonly BORDER_COLOR = parseHexColor(theme.code.borderColor);
+
+  constructor(scene: Phaser.Scene, x: number, y: number, code: string, language: string | undefined, style: CodeBlockStyle) {
+    this.scene = scene;
+    this.MAX_WIDTH = style.maxWidth ?? scene.scale.width - 160;
+
+    this.container = scene.add.container(x, y);
+    this.container.setDepth(6); // In front of text, below ship
+
+    this.backgroundGraphics = scene.add.graphics();
+    this.container.add(this.backgroundGraphics);
+
+    const codeWidth = this.renderLines(code.replace(/\t/g, this.TAB), language, style);
+    this.totalWidth = Math.max(codeWidth + this.PADDING_X * 2, this.MIN_WIDTH);
+    this.totalHeight = this.PADDING_Y * 2 + Math.max(code.split('\n').length, 1) * style.lineHeight;
+    this.renderFrame();
+    if (language) this.renderLabel(language, style);
+
+    // Long lines can't wrap, so shrink the whole block to fit the slide
+    if (this.totalWidth > this.MAX_WIDTH) {
+      const scale = this.MAX_WIDTH / this.totalWidth;
+      this.container.setScale(scale);
+      this.totalWidth *= scale;
+      this.totalHeight *= scale;
+    }
+  }
+
+  // Create the text for each token and return the width of the longest line
+  private renderLines(code: string, language: string | undefined, style: CodeBlockStyle): number {
+    const lines = highlight(code, isHighlighted(language) ? language : undefined);
+    let maxWidth = 0;
+
+    lines.forEach((tokens, lineIndex) => {
+      const lineY = this.PADDING_Y + lineIndex * style.lineHeight + style.lineHeight / 2;
+      let x = this.PADDING_X;
+      for (const token of tokens) {
+        const text = this.scene.add.text(x, lineY, token.text, {
+          fontSize: style.fontSize,
+          fontFamily: style.fontFamily,
+          color: tokenColor(token.type),
+          fontStyle: token.type === 'comment' ? 'italic' : 'normal',
+        });
+        text.setOrigin(0, 0.5);
+        this.container.add(text);
+        this.textObjects.push(text);
+        x += text.width;
+      }
+      maxWidth = Math.max(maxWidth, x - this.PADDING_X);
+    });
+
+    return maxWidth;
+  }
+
+  private renderFrame(): void {
+    this.backgroundGraphics.clear();
+    this.backgroundGraphics.fillStyle(this.BG_COLOR, 0.9);
+    this.backgroundGraphics.fillRoundedRect(0, 0, this.totalWidth, this.totalHeight, 8);
+    this.backgroundGraphics.lineStyle(2, this.BORDER_COLOR, 0.8);
+    this.backgroundGraphics.strokeRoundedRect(0, 0, this.totalWidth, this.totalHeight, 8);
+  }
+
+  // Small tab sitting on the top border, e.g. "yaml"
+  private renderLabel(language: string, style: CodeBlockStyle): void {
+    const label = this.scene.add.text(this.totalWidth - this.PADDING_X, 0, language, {
+      fontSize: `${Math.round(parseInt(style.fontSize) * 0.6)}px`,
+      fontFamily: style.fontFamily,
+      color: theme.code.commentColor,
+      backgroundColor: theme.code.backgroundColor,
+      padding: { x: 6, y: 1 },
+    });
+    label.setOrigin(1, 0.5);
+    this.container.add(label);
+    this.textObjects.push(label);
+  }
+
+  getContainer(): Phaser.GameObjects.Container {
+    return this.container;
+  }
+
+  setVisible(visible: boolean): void {
+    this.container.setVisible(visible);
+  }
+
+  getDimensions(): { width: number; height: number } {
+    return { width: this.totalWidth, height: this.totalHeight };
+  }
+
+  destroy(): void {
+    this.textObjects.forEach(obj => obj.destroy());
+    this.backgroundGraphics.destroy();
+    this.container.destroy();
+  }
+}
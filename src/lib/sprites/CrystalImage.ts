@@ -1,4 +1,7 @@
 import Phaser from 'phaser';
+import { isCalmMode, theme } from '../../theme.config';
+import { playSound } from '../audio/SoundEffects';
+import { parseHexColor } from '../utils/color';
 
 export class CrystalImage {
   private scene: Phaser.Scene;
@@ -104,9 +107,9 @@ export class CrystalImage {
     this.innerGlow.setPosition(this.crystalOffsetX, this.crystalOffsetY);
     this.innerGlow.clear();
     // Subtle pulsing core glow - very faint
-    this.innerGlow.fillStyle(0x00ffff, 0.08);
+    this.innerGlow.fillStyle(parseHexColor(theme.crystal.glowColor), 0.08);
     this.innerGlow.fillCircle(0, 0, 35);
-    this.innerGlow.fillStyle(0x326ce5, 0.05);
+    this.innerGlow.fillStyle(parseHexColor(theme.crystal.color), 0.05);
     this.innerGlow.fillCircle(0, 0, 45);
   }
 
@@ -116,10 +119,10 @@ export class CrystalImage {
     const h = this.POD_HEIGHT;
     const r = this.CORNER_RADIUS;
 
-    // Kubernetes colors
-    const k8sBlue = 0x326ce5;
-    const k8sLight = 0x4a8ff7;
-    const cyan = 0x00ffff;
+    // Kubernetes colors by default
+    const k8sBlue = parseHexColor(theme.crystal.color);
+    const k8sLight = parseHexColor(theme.crystal.lightColor);
+    const cyan = parseHexColor(theme.crystal.glowColor);
 
     // Draw rounded rectangle path helper
     const drawRoundedRect = (
@@ -207,7 +210,7 @@ export class CrystalImage {
     }
 
     // Main heptagon
-    g.fillStyle(0x326ce5, 1);
+    g.fillStyle(parseHexColor(theme.crystal.color), 1);
     g.beginPath();
     g.moveTo(points[0].x, points[0].y);
     for (let i = 1; i < points.length; i++) {
@@ -217,7 +220,7 @@ export class CrystalImage {
     g.fillPath();
 
     // Inner lighter heptagon
-    g.fillStyle(0x4a8ff7, 1);
+    g.fillStyle(parseHexColor(theme.crystal.lightColor), 1);
     const innerPoints = points.map((p) => ({
       x: p.x * 0.7,
       y: p.y * 0.7,
@@ -308,6 +311,8 @@ export class CrystalImage {
   }
 
   private startGlowAnimation(): void {
+    if (isCalmMode()) return;
+
     // Pulse the inner glow
     this.glowTween = this.scene.tweens.add({
       targets: this.innerGlow,
@@ -322,6 +327,8 @@ export class CrystalImage {
   }
 
   private startEmblemAnimation(): void {
+    if (isCalmMode()) return;
+
     // Slow rotation of emblem
     this.scene.tweens.add({
       targets: this.emblem,
@@ -343,6 +350,8 @@ export class CrystalImage {
   }
 
   private startFloatAnimation(): void {
+    if (isCalmMode()) return;
+
     // Entire container gentle float
     this.floatTween = this.scene.tweens.add({
       targets: this.container,
@@ -376,7 +385,7 @@ export class CrystalImage {
     if (this.emblemTween) this.emblemTween.stop();
     if (this.floatTween) this.floatTween.stop();
 
-    this.playShatterSound();
+    playSound('shatter');
 
     // Hide preview image
     if (this.previewImage) {
@@ -399,7 +408,7 @@ export class CrystalImage {
 
   private createExplosiveShards(): void {
     const shardCount = 16;
-    const colors = [0x326ce5, 0x4a8ff7, 0x00ffff, 0x88ccff, 0xffffff];
+    const colors = [theme.crystal.color, theme.crystal.lightColor, theme.crystal.glowColor, '#ffffff'].map(parseHexColor);
 
     // Create shards from crystal material
     for (let i = 0; i < shardCount; i++) {
@@ -465,7 +474,7 @@ export class CrystalImage {
 
     // Add energy burst ring
     const burst = this.scene.add.graphics();
-    burst.lineStyle(3, 0x00ffff, 0.8);
+    burst.lineStyle(3, parseHexColor(theme.crystal.glowColor), 0.8);
     burst.strokeCircle(0, 0, 30);
     burst.setPosition(this.crystalOffsetX, this.crystalOffsetY);
     this.container.add(burst);
@@ -483,7 +492,7 @@ export class CrystalImage {
     // Add particle sparks
     for (let i = 0; i < 12; i++) {
       const spark = this.scene.add.graphics();
-      spark.fillStyle(0x00ffff, 1);
+      spark.fillStyle(parseHexColor(theme.crystal.glowColor), 1);
       spark.fillCircle(0, 0, 2);
       spark.setPosition(this.crystalOffsetX, this.crystalOffsetY);
       this.container.add(spark);
@@ -561,7 +570,7 @@ export class CrystalImage {
 
     // Add glow effect behind image
     this.imageGlow = this.scene.add.graphics();
-    this.imageGlow.fillStyle(0x326ce5, 0.15);
+    this.imageGlow.fillStyle(parseHexColor(theme.crystal.color), 0.15);
     this.imageGlow.fillRoundedRect(
       -this.imageWidth / 2 - 10,
       -this.imageHeight / 2 - 10,
@@ -597,15 +606,17 @@ export class CrystalImage {
     this.imageTweens.push(materializeTween);
 
     // Add subtle floating animation
-    const floatTween = this.scene.tweens.add({
-      targets: this.image,
-      y: -5,
-      duration: 2000,
-      yoyo: true,
-      repeat: -1,
-      ease: 'Sine.easeInOut',
-    });
-    this.imageTweens.push(floatTween);
+    if (!isCalmMode()) {
+      const floatTween = this.scene.tweens.add({
+        targets: this.image,
+        y: -5,
+        duration: 2000,
+        yoyo: true,
+        repeat: -1,
+        ease: 'Sine.easeInOut',
+      });
+      this.imageTweens.push(floatTween);
+    }
 
     const glowTween = this.scene.tweens.add({
       targets: this.imageGlow,
@@ -629,7 +640,7 @@ export class CrystalImage {
 
     // Button background
     const bg = this.scene.add.graphics();
-    bg.fillStyle(0xff4444, 1);
+    bg.fillStyle(parseHexColor(theme.crystal.closeColor), 1);
     bg.fillCircle(0, 0, btnSize / 2);
     bg.lineStyle(2, 0xffffff, 0.8);
     bg.strokeCircle(0, 0, btnSize / 2);
@@ -656,16 +667,18 @@ export class CrystalImage {
     });
 
     // Pulse animation
-    const pulseTween = this.scene.tweens.add({
-      targets: this.closeButton,
-      scaleX: 1.1,
-      scaleY: 1.1,
-      duration: 800,
-      yoyo: true,
-      repeat: -1,
-      ease: 'Sine.easeInOut',
-    });
-    this.imageTweens.push(pulseTween);
+    if (!isCalmMode()) {
+      const pulseTween = this.scene.tweens.add({
+        targets: this.closeButton,
+        scaleX: 1.1,
+        scaleY: 1.1,
+        duration: 800,
+        yoyo: true,
+        repeat: -1,
+        ease: 'Sine.easeInOut',
+      });
+      this.imageTweens.push(pulseTween);
+    }
   }
 
   private createPlaceholder(): void {
@@ -674,7 +687,7 @@ export class CrystalImage {
     const g = this.scene.add.graphics();
 
     // Placeholder box
-    g.fillStyle(0x1a1a3a, 1);
+    g.fillStyle(parseHexColor(theme.background.color), 1);
     g.fillRoundedRect(
       -this.imageWidth / 2,
       -this.imageHeight / 2,
@@ -683,7 +696,7 @@ export class CrystalImage {
       8
     );
 
-    g.lineStyle(2, 0x326ce5, 0.5);
+    g.lineStyle(2, parseHexColor(theme.crystal.color), 0.5);
     g.strokeRoundedRect(
       -this.imageWidth / 2,
       -this.imageHeight / 2,
@@ -693,7 +706,7 @@ export class CrystalImage {
     );
 
     // Image icon
-    g.fillStyle(0x326ce5, 0.3);
+    g.fillStyle(parseHexColor(theme.crystal.color), 0.3);
     g.fillCircle(0, -10, 20);
     g.fillTriangle(-30, 30, 0, 0, 30, 30);
 
@@ -730,7 +743,7 @@ export class CrystalImage {
     this.imageTweens.forEach((tween) => tween.stop());
     this.imageTweens = [];
 
-    this.playReformSound();
+    playSound('reform');
 
     // Shrink image and glow
     if (this.image) {
@@ -806,7 +819,7 @@ export class CrystalImage {
     const convergeCount = 12;
     for (let i = 0; i < convergeCount; i++) {
       const energy = this.scene.add.graphics();
-      energy.fillStyle(0x00ffff, 0.8);
+      energy.fillStyle(parseHexColor(theme.crystal.glowColor), 0.8);
       energy.fillCircle(0, 0, 3);
 
       const angle = (i / convergeCount) * Math.PI * 2;
@@ -869,74 +882,6 @@ export class CrystalImage {
     });
   }
 
-  private playShatterSound(): void {
-    const audioContext =
-      new (window.AudioContext ||
-      (window as typeof window & { webkitAudioContext: typeof AudioContext }).webkitAudioContext)();
-
-    // Explosive sound - multiple layered tones
-    for (let i = 0; i < 4; i++) {
-      const oscillator = audioContext.createOscillator();
-      const gainNode = audioContext.createGain();
-
-      oscillator.connect(gainNode);
-      gainNode.connect(audioContext.destination);
-
-      oscillator.type = i % 2 === 0 ? 'square' : 'sawtooth';
-      const startFreq = 600 + i * 200;
-      oscillator.frequency.setValueAtTime(startFreq, audioContext.currentTime);
-      oscillator.frequency.exponentialRampToValueAtTime(50, audioContext.currentTime + 0.2 + i * 0.05);
-
-      gainNode.gain.setValueAtTime(0.15, audioContext.currentTime + i * 0.02);
-      gainNode.gain.exponentialRampToValueAtTime(0.01, audioContext.currentTime + 0.25);
-
-      oscillator.start(audioContext.currentTime + i * 0.02);
-      oscillator.stop(audioContext.currentTime + 0.3);
-    }
-
-    // Noise burst for impact
-    const bufferSize = audioContext.sampleRate * 0.1;
-    const buffer = audioContext.createBuffer(1, bufferSize, audioContext.sampleRate);
-    const data = buffer.getChannelData(0);
-    for (let i = 0; i < bufferSize; i++) {
-      data[i] = Math.random() * 2 - 1;
-    }
-    const noise = audioContext.createBufferSource();
-    noise.buffer = buffer;
-    const noiseGain = audioContext.createGain();
-    noiseGain.gain.setValueAtTime(0.1, audioContext.currentTime);
-    noiseGain.gain.exponentialRampToValueAtTime(0.01, audioContext.currentTime + 0.1);
-    noise.connect(noiseGain);
-    noiseGain.connect(audioContext.destination);
-    noise.start();
-  }
-
-  private playReformSound(): void {
-    const audioContext =
-      new (window.AudioContext ||
-      (window as typeof window & { webkitAudioContext: typeof AudioContext }).webkitAudioContext)();
-
-    // Rising energy sound
-    for (let i = 0; i < 3; i++) {
-      const oscillator = audioContext.createOscillator();
-      const gainNode = audioContext.createGain();
-
-      oscillator.connect(gainNode);
-      gainNode.connect(audioContext.destination);
-
-      oscillator.type = 'sine';
-      const startFreq = 200 + i * 100;
-      oscillator.frequency.setValueAtTime(startFreq, audioContext.currentTime + i * 0.05);
-      oscillator.frequency.exponentialRampToValueAtTime(800, audioContext.currentTime + 0.3);
-
-      gainNode.gain.setValueAtTime(0.1, audioContext.currentTime + i * 0.05);
-      gainNode.gain.exponentialRampToValueAtTime(0.01, audioContext.currentTime + 0.4);
-
-      oscillator.start(audioContext.currentTime + i * 0.05);
-      oscillator.stop(audioContext.currentTime + 0.4);
-    }
-  }
-
   getContainer(): Phaser.GameObjects.Container {
     return this.container;
   }
@@ -951,6 +896,12 @@ export class CrystalImage {
     }
   }
 
+  // Hidden crystals (e.g. unrevealed fragments) can't be hit
+  setVisible(visible: boolean): void {
+    this.container.setVisible(visible);
+    (this.container.body as Phaser.Physics.Arcade.Body).enable = visible;
+  }
+
   isActivated(): boolean {
     return this.isShattered;
   }
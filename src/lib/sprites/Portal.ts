@@ -0,0 +1,116 @@
+import Phaser from 'phaser';
+import { isCalmMode, theme } from '../../theme.config';
+import { parseHexColor } from '../utils/color';
+
+// Swirling warp gate that takes the ship to another slide
+export class Portal {
+  private scene: Phaser.Scene;
+  private container: Phaser.GameObjects.Container;
+  private rings: Phaser.GameObjects.Graphics;
+  private core: Phaser.GameObjects.Graphics;
+  private target: string;
+  private spinTween: Phaser.Tweens.Tween | null = null;
+  private pulseTween: Phaser.Tweens.Tween | null = null;
+
+  private readonly RADIUS = 45;
+
+  constructor(scene: Phaser.Scene, x: number, y: number, target: string, label: string) {
+    this.scene = scene;
+    this.target = target;
+
+    this.container = scene.add.container(x, y);
+    this.container.setDepth(5); // Below ship (depth 10), like crystals
+
+    this.core = this.createCore();
+    this.container.add(this.core);
+
+    this.rings = this.createRings();
+    this.container.add(this.rings);
+
+    const text = scene.add.text(0, this.RADIUS + 14, label, {
+      fontSize: '16px',
+      fontFamily: theme.fonts.body,
+      color: theme.text.accentColor,
+      align: 'center',
+    });
+    text.setOrigin(0.5, 0);
+    this.container.add(text);
+
+    this.startAnimations();
+  }
+
+  private createCore(): Phaser.GameObjects.Graphics {
+    const g = this.scene.add.graphics();
+    const glow = parseHexColor(theme.starship.glowColor);
+    g.fillStyle(0x000000, 0.8);
+    g.fillCircle(0, 0, this.RADIUS);
+    g.fillStyle(glow, 0.15);
+    g.fillCircle(0, 0, this.RADIUS * 0.7);
+    g.fillStyle(glow, 0.25);
+    g.fillCircle(0, 0, this.RADIUS * 0.35);
+    return g;
+  }
+
+  // Broken concentric rings - the gaps make the rotation visible
+  private createRings(): Phaser.GameObjects.Graphics {
+    const g = this.scene.add.graphics();
+    const colors = [parseHexColor(theme.text.headingColor), parseHexColor(theme.starship.color)];
+
+    for (let ring = 0; ring < 3; ring++) {
+      const radius = this.RADIUS - ring * 12;
+      g.lineStyle(4 - ring, colors[ring % colors.length], 0.9 - ring * 0.2);
+      for (let arc = 0; arc < 3; arc++) {
+        const start = Phaser.Math.DegToRad(arc * 120 + ring * 40);
+        g.beginPath();
+        g.arc(0, 0, radius, start, start + Phaser.Math.DegToRad(80));
+        g.strokePath();
+      }
+    }
+    return g;
+  }
+
+  private startAnimations(): void {
+    if (isCalmMode()) return;
+
+    this.spinTween = this.scene.tweens.add({
+      targets: this.rings,
+      angle: 360,
+      duration: 3000,
+      repeat: -1,
+    });
+
+    this.pulseTween = this.scene.tweens.add({
+      targets: this.core,
+      scale: 1.1,
+      duration: 900,
+      yoyo: true,
+      repeat: -1,
+      ease: 'Sine.easeInOut',
+    });
+  }
+
+  // Slide ID this portal leads to
+  getTarget(): string {
+    return this.target;
+  }
+
+  // True if a point is inside the gate
+  contains(x: number, y: number): boolean {
+    if (!this.container.visible) return false;
+    return Phaser.Math.Distance.Between(x, y, this.container.x, this.container.y) < this.RADIUS * 0.7;
+  }
+
+  getContainer(): Phaser.GameObjects.Container {
+    return this.container;
+  }
+
+  setVisible(visible: boolean): void {
+    this.container.setVisible(visible);
+  }
+
+  destroy(): void {
+    this.spinTween?.stop();
+    this.pulseTween?.stop();
+    this.container.destroy();
+  }
+}
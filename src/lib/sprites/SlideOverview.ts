@@ -0,0 +1,298 @@
+import Phaser from 'phaser';
+import { Slide } from '../parser/MarkdownParser';
+import { AutoLayout } from '../layout/AutoLayout';
+import { defaultCrystalPosition, defaultStaticImagePosition } from '../managers/SlideManager';
+import { motionDuration, theme } from '../../theme.config';
+import { parseHexColor } from '../utils/color';
+import { stripRichText } from '../utils/richText';
+
+interface Cell {
+  index: number;
+  x: number;
+  y: number;
+}
+
+// Grid of slide thumbnails shown in overview mode. Thumbnails are drawn at full
+// slide size and scaled down, so zooming in and out is a single container tween.
+export class SlideOverview {
+  private scene: Phaser.Scene;
+  private container: Phaser.GameObjects.Container;
+  private backdrop: Phaser.GameObjects.Graphics;
+  private highlight: Phaser.GameObjects.Graphics;
+  private cells: Cell[] = [];
+  private cellWidth: number = 0;
+  private cellHeight: number = 0;
+  private cellScale: number = 1;
+  private highlightedIndex: number = -1;
+  private animating: boolean = false;
+
+  private readonly TOP_MARGIN = 70; // Below the HUD
+  private readonly MARGIN = 40;
+  private readonly GAP = 20;
+
+  constructor(scene: Phaser.Scene, slides: Slide[], currentIndex: number) {
+    this.scene = scene;
+    const { width, height } = scene.scale;
+
+    this.backdrop = scene.add.graphics();
+    this.backdrop.fillStyle(parseHexColor(theme.background.color), 0.95);
+    this.backdrop.fillRect(0, 0, width, height);
+    this.backdrop.setScrollFactor(0);
+    this.backdrop.setDepth(900); // Above slide content, below HUD (1000) and ship (1100)
+
+    this.container = scene.add.container(0, 0);
+    this.container.setDepth(901);
+
+    this.createCells(slides, currentIndex);
+
+    this.highlight = scene.add.graphics();
+    this.container.add(this.highlight);
+
+    this.zoomOutFrom(currentIndex);
+  }
+
+  private createCells(slides: Slide[], currentIndex: number): void {
+    const { width, height } = this.scene.scale;
+    const layout = new AutoLayout({ width, height });
+    const grid = this.calculateGrid(slides.length);
+
+    this.cellWidth = grid.cellWidth;
+    this.cellHeight = grid.cellWidth * (height / width);
+    this.cellScale = grid.cellWidth / width;
+
+    // Center the grid horizontally
+    const gridWidth = grid.cols * this.cellWidth + (grid.cols - 1) * this.GAP;
+    const startX = (width - gridWidth) / 2;
+
+    slides.forEach((slide, index) => {
+      const col = index % grid.cols;
+      const row = Math.floor(index / grid.cols);
+      const x = startX + col * (this.cellWidth + this.GAP);
+      const y = this.TOP_MARGIN + row * (this.cellHeight + this.GAP);
+
+      const cell = this.scene.add.container(x, y);
+      cell.setScale(this.cellScale);
+      this.drawThumbnail(cell, slide, layout, index === currentIndex);
+      this.container.add(cell);
+
+      // Slide number below the thumbnail
+      const label = this.scene.add.text(x + this.cellWidth / 2, y + this.cellHeight + 2, `${index + 1}`, {
+        fontSize: '12px',
+        fontFamily: 'monospace',
+        color: index === currentIndex ? theme.text.headingColor : '#888888',
+      });
+      label.setOrigin(0.5, 0);
+      this.container.add(label);
+
+      this.cells.push({ index, x, y });
+    });
+  }
+
+  // Pick the column count that gives the largest thumbnails
+  private calculateGrid(count: number): { cols: number; cellWidth: number } {
+    const { width, height } = this.scene.scale;
+    const aspect = height / width;
+    const availableWidth = width - this.MARGIN * 2;
+    const availableHeight = height - this.TOP_MARGIN - this.MARGIN;
+
+    let best = { cols: 1, cellWidth: 0 };
+    for (let cols = 1; cols <= Math.max(1, count); cols++) {
+      const rows = Math.ceil(count / cols);
+      const byWidth = (availableWidth - (cols - 1) * this.GAP) / cols;
+      // Leave room for the slide number under each row
+      const byHeight = ((availableHeight - (rows - 1) * this.GAP) / rows - 14) / aspect;
+      const cellWidth = Math.min(byWidth, byHeight);
+      if (cellWidth > best.cellWidth) {
+        best = { cols, cellWidth };
+      }
+    }
+    return best;
+  }
+
+  // Simplified rendering of a slide at full size (the cell container scales it down)
+  private drawThumbnail(
+    cell: Phaser.GameObjects.Container,
+    slide: Slide,
+    layout: AutoLayout,
+    isCurrent: boolean
+  ): void {
+    const { width, height } = this.scene.scale;
+    const background = slide.directives.background ?? theme.background.color;
+
+    const frame = this.scene.add.graphics();
+    frame.fillStyle(parseHexColor(background), 1);
+    frame.fillRect(0, 0, width, height);
+    frame.lineStyle(isCurrent ? 16 : 8, isCurrent ? parseHexColor(theme.text.headingColor) : 0x1a1a3a, 1);
+    frame.strokeRect(0, 0, width, height);
+    cell.add(frame);
+
+    const layoutElements = layout.layout(slide);
+    layoutElements.forEach((layoutEl, index) => {
+      const slideEl = slide.elements[index];
+
+      if (slideEl.type === 'table' && slideEl.tableData) {
+        // Table outline with a header row
+        const rowHeight = 40;
+        const tableHeight = rowHeight * (slideEl.tableData.rows.length + 1);
+        const tableWidth = width - layoutEl.x * 2;
+        const table = this.scene.add.graphics();
+        table.fillStyle(parseHexColor(theme.table.headerColor), 0.9);
+        table.fillRect(layoutEl.x, layoutEl.y, tableWidth, rowHeight);
+        table.lineStyle(4, parseHexColor(theme.table.borderColor), 0.8);
+        table.strokeRect(layoutEl.x, layoutEl.y, tableWidth, tableHeight);
+        cell.add(table);
+        return;
+      }
+
+      const lineHeight = parseInt(layoutEl.fontSize) * 1.2;
+      // Thumbnails use plain text
+      const text = this.scene.add.text(layoutEl.x, layoutEl.y - lineHeight / 2, stripRichText(layoutEl.content), {
+        fontSize: layoutEl.fontSize,
+        fontFamily: layoutEl.fontFamily,
+        fontStyle: layoutEl.fontStyle,
+        color: layoutEl.color,
+        align: layoutEl.align ?? 'left',
+      });
+      text.setOrigin(layoutEl.anchor === 'center' ? 0.5 : 0, 0);
+      cell.add(text);
+    });
+
+    // Crystals as pods, static images as the image itself if it is already loaded
+    slide.images.forEach((image, index) => {
+      const position = defaultCrystalPosition(index, width, height);
+      const x = image.crystalX ?? image.x ?? position.x;
+      const y = image.crystalY ?? image.y ?? position.y;
+      const pod = this.scene.add.graphics();
+      pod.fillStyle(parseHexColor(theme.crystal.color), 0.6);
+      pod.fillRoundedRect(x - 35, y - 45, 70, 90, 6);
+      pod.lineStyle(4, parseHexColor(theme.crystal.glowColor), 0.8);
+      pod.strokeRoundedRect(x - 35, y - 45, 70, 90, 6);
+      cell.add(pod);
+    });
+
+    slide.portals.forEach((portal, index) => {
+      const x = portal.x ?? (width * (index + 1)) / (slide.portals.length + 1);
+      const y = portal.y ?? height - 140;
+      const ring = this.scene.add.graphics();
+      ring.lineStyle(6, parseHexColor(theme.text.headingColor), 0.8);
+      ring.strokeCircle(x, y, 45);
+      cell.add(ring);
+    });
+
+    slide.staticImages.forEach((image, index) => {
+      const position = defaultStaticImagePosition(index, width, height);
+      const x = image.x ?? position.x;
+      const y = image.y ?? position.y;
+      if (this.scene.textures.exists(image.filename)) {
+        const img = this.scene.add.image(x, y, image.filename);
+        if (image.width || image.height) {
+          const w = image.width ?? (image.height! * img.width) / img.height;
+          const h = image.height ?? (image.width! * img.height) / img.width;
+          img.setDisplaySize(w, h);
+        }
+        cell.add(img);
+      } else {
+        const w = image.width ?? 200;
+        const h = image.height ?? 150;
+        const placeholder = this.scene.add.graphics();
+        placeholder.lineStyle(4, parseHexColor(theme.crystal.color), 0.6);
+        placeholder.strokeRect(x - w / 2, y - h / 2, w, h);
+        cell.add(placeholder);
+      }
+    });
+  }
+
+  // Start zoomed in on the current slide and pull back to the full grid
+  private zoomOutFrom(index: number): void {
+    const cell = this.cells[index];
+    if (!cell) return;
+
+    this.animating = true;
+    const zoom = 1 / this.cellScale;
+    this.container.setScale(zoom);
+    this.container.setPosition(-cell.x * zoom, -cell.y * zoom);
+    this.backdrop.setAlpha(0);
+
+    this.scene.tweens.add({
+      targets: this.backdrop,
+      alpha: 1,
+      duration: motionDuration(200),
+    });
+    this.scene.tweens.add({
+      targets: this.container,
+      x: 0,
+      y: 0,
+      scaleX: 1,
+      scaleY: 1,
+      duration: motionDuration(500),
+      ease: 'Cubic.easeInOut',
+      onComplete: () => {
+        this.animating = false;
+      },
+    });
+  }
+
+  // Zoom into a thumbnail until it fills the screen
+  zoomInto(index: number, onComplete: () => void): void {
+    const cell = this.cells[index];
+    if (!cell) {
+      onComplete();
+      return;
+    }
+
+    this.animating = true;
+    this.highlight.clear();
+    const zoom = 1 / this.cellScale;
+
+    this.scene.tweens.add({
+      targets: this.container,
+      x: -cell.x * zoom,
+      y: -cell.y * zoom,
+      scaleX: zoom,
+      scaleY: zoom,
+      duration: motionDuration(400),
+      ease: 'Cubic.easeInOut',
+      onComplete: () => {
+        this.animating = false;
+        onComplete();
+      },
+    });
+  }
+
+  // Index of the thumbnail at a world position, or -1
+  getSlideIndexAt(x: number, y: number): number {
+    if (this.animating) return -1;
+    for (const cell of this.cells) {
+      if (x >= cell.x && x <= cell.x + this.cellWidth && y >= cell.y && y <= cell.y + this.cellHeight) {
+        return cell.index;
+      }
+    }
+    return -1;
+  }
+
+  // Outline the thumbnail under the ship
+  setHighlighted(index: number): void {
+    if (index === this.highlightedIndex) return;
+    this.highlightedIndex = index;
+    this.highlight.clear();
+
+    const cell = this.cells[index];
+    if (!cell) return;
+    this.highlight.lineStyle(3, parseHexColor(theme.laser.color), 1);
+    this.highlight.strokeRect(cell.x - 4, cell.y - 4, this.cellWidth + 8, this.cellHeight + 8);
+  }
+
+  getHighlightedIndex(): number {
+    return this.highlightedIndex;
+  }
+
+  isAnimating(): boolean {
+    return this.animating;
+  }
+
+  destroy(): void {
+    this.scene.tweens.killTweensOf([this.container, this.backdrop]);
+    this.container.destroy();
+    this.backdrop.destroy();
+  }
+}
@@ -1,14 +1,12 @@
 import Phaser from 'phaser';
-import { theme } from '../../theme.config';
-
-// Parse hex color from theme (e.g., "#326ce5" -> 0x326ce5)
-function parseHexColor(hex: string): number {
-  return parseInt(hex.replace('#', ''), 16);
-}
+import { onThemeChange, theme } from '../../theme.config';
+import { playSound } from '../audio/SoundEffects';
+import { parseHexColor } from '../utils/color';
 
 export class Starship {
   private scene: Phaser.Scene;
   private sprite: Phaser.GameObjects.Container;
+  private shipBody!: Phaser.GameObjects.Graphics;
   private body: Phaser.Physics.Arcade.Body;
   
   private readonly THRUST = 800;
@@ -73,6 +71,10 @@ export class Starship {
     this.debugText.setScrollFactor(0);
     this.debugText.setDepth(1000);
     this.debugText.setVisible(false);
+
+    // Repaint the hull when the theme changes; the glows read the theme every frame
+    const removeThemeListener = onThemeChange(() => this.drawShip());
+    scene.events.once(Phaser.Scenes.Events.SHUTDOWN, removeThemeListener);
   }
 
   toggleDebug(): void {
@@ -83,8 +85,15 @@ export class Starship {
 
   private createShipGraphics(x: number, y: number): Phaser.GameObjects.Container {
     const container = this.scene.add.container(x, y);
-    
-    const shipBody = this.scene.add.graphics();
+    this.shipBody = this.scene.add.graphics();
+    this.drawShip();
+    container.add(this.shipBody);
+    return container;
+  }
+
+  private drawShip(): void {
+    const shipBody = this.shipBody;
+    shipBody.clear();
     const radius = 22;
     const sides = 7;
     const shipColor = parseHexColor(theme.starship.color);
@@ -134,10 +143,6 @@ export class Starship {
     shipBody.fillRect(radius - 2, -1.5, 10, 3);
     shipBody.fillStyle(0x00ffff, 1);
     shipBody.fillRect(radius, -0.5, 8, 1);
-    
-    container.add(shipBody);
-    
-    return container;
   }
 
   private drawHeptagon(
@@ -476,7 +481,7 @@ export class Starship {
       Math.sin(angle) * this.LASER_SPEED
     );
 
-    this.playLaserSound();
+    playSound('laser');
 
     this.scene.time.delayedCall(1500, () => {
       if (laser.active) {
@@ -515,26 +520,6 @@ export class Starship {
     return laser;
   }
 
-  private playLaserSound(): void {
-    const audioContext = new (window.AudioContext || (window as typeof window & { webkitAudioContext: typeof AudioContext }).webkitAudioContext)();
-    
-    const oscillator = audioContext.createOscillator();
-    const gainNode = audioContext.createGain();
-    
-    oscillator.connect(gainNode);
-    gainNode.connect(audioContext.destination);
-    
-    oscillator.type = 'square';
-    oscillator.frequency.setValueAtTime(1200, audioContext.currentTime);
-    oscillator.frequency.exponentialRampToValueAtTime(200, audioContext.currentTime + 0.1);
-    
-    gainNode.gain.setValueAtTime(0.15, audioContext.currentTime);
-    gainNode.gain.exponentialRampToValueAtTime(0.01, audioContext.currentTime + 0.1);
-    
-    oscillator.start(audioContext.currentTime);
-    oscillator.stop(audioContext.currentTime + 0.1);
-  }
-
   getLasers(): Phaser.Physics.Arcade.Group {
     return this.lasers;
   }
@@ -1,4 +1,5 @@
 import Phaser from 'phaser';
+import { isCalmMode } from '../../theme.config';
 
 export class StaticImage {
   private scene: Phaser.Scene;
@@ -73,6 +74,8 @@ export class StaticImage {
   }
 
   private startFloatAnimation(): void {
+    if (isCalmMode()) return;
+
     // Gentle bobbing motion like crystal images
     this.floatTween = this.scene.tweens.add({
       targets: this.container,
@@ -88,6 +91,14 @@ export class StaticImage {
     return this.container;
   }
 
+  setVisible(visible: boolean): void {
+    this.container.setVisible(visible);
+  }
+
+  isVisible(): boolean {
+    return this.container.visible;
+  }
+
   getDimensions(): { width: number; height: number } {
     if (this.image) {
       return {
@@ -1,4 +1,6 @@
 import Phaser from 'phaser';
+import { resolveFont, theme } from '../../theme.config';
+import { parseHexColor } from '../utils/color';
 
 interface TableData {
   headers: string[];
@@ -24,21 +26,22 @@ export class Table {
   // Styling
   private readonly PADDING_X = 15;
   private readonly PADDING_Y = 10;
-  private readonly MIN_CELL_HEIGHT = 40;
+  private readonly MIN_CELL_HEIGHT = theme.typography.table.lineHeight;
   private readonly MIN_COL_WIDTH = 60;
   private readonly MAX_COL_WIDTH = 500;
-  private readonly SLIDE_WIDTH = 1280 - 160;
-  private readonly HEADER_BG_COLOR = 0x1a4a7a;  // Dark blue
-  private readonly ROW_BG_COLOR = 0x0a1a2a;      // Darker blue
-  private readonly BORDER_COLOR = 0x326ce5;      // Kubernetes blue
-  private readonly TEXT_COLOR = '#aaccff';
-  private readonly HEADER_TEXT_COLOR = '#ffffff';
-  private readonly FONT_SIZE = '20px';
-  private readonly FONT_FAMILY = 'Revalia';
+  private readonly SLIDE_WIDTH: number;
+  private readonly HEADER_BG_COLOR = parseHexColor(theme.table.headerColor);
+  private readonly ROW_BG_COLOR = parseHexColor(theme.table.rowColor);
+  private readonly BORDER_COLOR = parseHexColor(theme.table.borderColor);
+  private readonly TEXT_COLOR = theme.table.textColor;
+  private readonly HEADER_TEXT_COLOR = theme.table.headerTextColor;
+  private readonly FONT_SIZE = `${theme.typography.table.size}px`;
+  private readonly FONT_FAMILY = resolveFont(theme.typography.table.font);
 
   constructor(scene: Phaser.Scene, x: number, y: number, tableData: TableData) {
     this.scene = scene;
     this.tableData = tableData;
+    this.SLIDE_WIDTH = scene.scale.width - 160; // Canvas width minus layout padding
 
     this.container = scene.add.container(x, y);
     this.container.setDepth(6); // In front of text, below ship
@@ -261,6 +264,10 @@ export class Table {
     return this.container;
   }
 
+  setVisible(visible: boolean): void {
+    this.container.setVisible(visible);
+  }
+
   getDimensions(): { width: number; height: number } {
     return { width: this.totalWidth, height: this.totalHeight };
   }
@@ -1,11 +1,16 @@
 import Phaser from 'phaser';
+import { isCalmMode } from '../../theme.config';
+import { playSound } from '../audio/SoundEffects';
+import { parseHexColor, toHexString } from '../utils/color';
 
 interface TextStyle {
   fontSize?: string;
   fontFamily?: string;
+  lineHeight?: number;        // px between lines (default: 1.2 x font size)
   color?: string;
   fontStyle?: string;
   align?: 'left' | 'center';
+  anchor?: 'left' | 'center'; // x is the left edge (default) or the center
 }
 
 // Parse content with {b}...{/b} and {i}...{/i} tags into segments
@@ -156,6 +161,7 @@ export class TextObstacle {
   private originalColor: string;
   private fontSize: string;
   private fontFamily: string;
+  private lineHeight: number;
   private fontStyle: string;
   private align: 'left' | 'center';
   private isFlashing: boolean = false;
@@ -176,11 +182,12 @@ export class TextObstacle {
     this.originalColor = style.color || '#ffffff';
     this.fontSize = style.fontSize || '24px';
     this.fontFamily = style.fontFamily || 'monospace';
+    this.lineHeight = style.lineHeight || parseInt(this.fontSize) * 1.2;
     this.fontStyle = style.fontStyle || 'normal';
     this.align = style.align || 'center';
 
     const padding = 10;
-    const lineHeight = parseInt(this.fontSize) * 1.2;
+    const lineHeight = this.lineHeight;
 
     // Parse rich text and split by lines while preserving formatting
     const allSegments = parseRichTextMultiline(content);
@@ -199,9 +206,8 @@ export class TextObstacle {
       totalWidth = Math.max(totalWidth, lineWidth);
     }
 
-    // Calculate positions based on alignment
-    const isLeftAlign = this.align === 'left';
-    const containerX = isLeftAlign ? x + totalWidth / 2 : x + totalWidth / 2;
+    // Calculate positions based on anchor
+    const containerX = style.anchor === 'center' ? x : x + totalWidth / 2;
     const containerY = y + ((allSegments.length - 1) * lineHeight) / 2;
 
     // Create invisible physics rectangle at text position
@@ -223,7 +229,7 @@ export class TextObstacle {
   }
 
   private createTextSegments(allSegments: TextSegment[][], totalWidth: number): void {
-    const lineHeight = parseInt(this.fontSize) * 1.2;
+    const lineHeight = this.lineHeight;
     const numLines = allSegments.length;
 
     // Position text segments in container
@@ -317,7 +323,7 @@ export class TextObstacle {
       // Laser collision - play full flash effect with sound
       if (this.isFlashing) return;
       this.isFlashing = true;
-      this.playCollisionSound();
+      playSound('textHit');
       this.playFlashEffect();
     }
   }
@@ -391,48 +397,11 @@ export class TextObstacle {
 
   private getBrighterColor(color: string): string {
     // Simple brightness increase for hex colors
-    const hex = color.replace('#', '');
-    const r = Math.min(255, parseInt(hex.substr(0, 2), 16) + 60);
-    const g = Math.min(255, parseInt(hex.substr(2, 2), 16) + 60);
-    const b = Math.min(255, parseInt(hex.substr(4, 2), 16) + 60);
-    return `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${b.toString(16).padStart(2, '0')}`;
-  }
-
-  private playCollisionSound(): void {
-    try {
-      const audioContext = TextObstacle.getAudioContext();
-
-      const oscillator = audioContext.createOscillator();
-      const gainNode = audioContext.createGain();
-
-      oscillator.connect(gainNode);
-      gainNode.connect(audioContext.destination);
-
-      oscillator.type = 'sine';
-      const now = audioContext.currentTime;
-      oscillator.frequency.setValueAtTime(800, now);
-      oscillator.frequency.exponentialRampToValueAtTime(400, now + 0.1);
-
-      gainNode.gain.setValueAtTime(0.3, now);
-      gainNode.gain.exponentialRampToValueAtTime(0.01, now + 0.15);
-
-      oscillator.start(now);
-      oscillator.stop(now + 0.15);
-    } catch (e) {
-      console.warn('Audio error:', e);
-    }
-  }
-
-  private static audioContext: AudioContext | null = null;
-
-  private static getAudioContext(): AudioContext {
-    if (!TextObstacle.audioContext) {
-      TextObstacle.audioContext = new (window.AudioContext || (window as typeof window & { webkitAudioContext: typeof AudioContext }).webkitAudioContext)();
-    }
-    if (TextObstacle.audioContext.state === 'suspended') {
-      TextObstacle.audioContext.resume();
-    }
-    return TextObstacle.audioContext;
+    const rgb = parseHexColor(color);
+    const r = Math.min(255, ((rgb >> 16) & 0xff) + 60);
+    const g = Math.min(255, ((rgb >> 8) & 0xff) + 60);
+    const b = Math.min(255, (rgb & 0xff) + 60);
+    return toHexString((r << 16) | (g << 8) | b);
   }
 
   private playFlashEffect(): void {
@@ -442,6 +411,20 @@ export class TextObstacle {
       this.flashTween.stop();
     }
 
+    // Calm mode: a steady highlight instead of strobing colors and a wiggle
+    if (isCalmMode()) {
+      this.textObjects.forEach((text) => text.setColor(this.getBrighterColor(this.originalColor)));
+      this.scene.time.delayedCall(300, () => {
+        this.textObjects.forEach((text) => {
+          if (text.active) {
+            text.setColor(this.originalColor);
+          }
+        });
+        this.isFlashing = false;
+      });
+      return;
+    }
+
     const flashColors = ['#ffffff', '#00ffff', '#ff00ff', '#ffff00'];
     let colorIndex = 0;
 
@@ -504,6 +487,16 @@ export class TextObstacle {
     return this.physicsBody;
   }
 
+  getContainer(): Phaser.GameObjects.Container {
+    return this.container;
+  }
+
+  // Hidden text (e.g. an unrevealed fragment) has no collisions
+  setVisible(visible: boolean): void {
+    this.container.setVisible(visible);
+    this.body.enable = visible;
+  }
+
   destroy(): void {
     if (this.hoverTimeout) {
       window.clearTimeout(this.hoverTimeout);
@@ -0,0 +1,153 @@
+import { applyThemeOverrides, ThemeOverrides } from '../../theme.config';
+
+// Built-in looks, applied on top of theme.config.ts. Pick one in the front
+// matter with `theme: light` or cycle through them with T during the talk.
+
+// The default look from theme.config.ts
+const space: ThemeOverrides = {};
+
+// Dark text on a pale background - survives washed-out projectors
+const light: ThemeOverrides = {
+  background: { type: 'grid', color: '#f4f4ef', tint: '#c8d0e0' },
+  text: { headingColor: '#0b3d91', bodyColor: '#1a1a1a', accentColor: '#333333' },
+  starship: { color: '#326ce5', glowColor: '#5b8def' },
+  laser: { color: '#e4572e', glowColor: '#e4572e' },
+  crystal: { color: '#326ce5', lightColor: '#6b9bf2', glowColor: '#0b3d91', closeColor: '#d62828' },
+  table: {
+    headerColor: '#dbe4f3',
+    rowColor: '#ffffff',
+    borderColor: '#326ce5',
+    textColor: '#1a1a1a',
+    headerTextColor: '#0b3d91',
+  },
+  hud: {
+    backgroundColor: '#e6e6e0',
+    labelColor: '#666666',
+    textColor: '#1a1a1a',
+    scoreColor: '#b8860b',
+    hiScoreColor: '#c05600',
+    crystalColor: '#0b7a99',
+    livesColor: '#d62828',
+    shipColor: '#326ce5',
+  },
+  code: {
+    color: '#1f2328',
+    backgroundColor: '#f6f8fa',
+    borderColor: '#c8d0e0',
+    keywordColor: '#cf222e',
+    stringColor: '#0a3069',
+    numberColor: '#0550ae',
+    commentColor: '#6e7781',
+    typeColor: '#953800',
+    functionColor: '#8250df',
+    keyColor: '#116329',
+    variableColor: '#953800',
+    punctuationColor: '#57606a',
+  },
+};
+
+// Pure black, white and yellow with nothing moving behind the text
+const highContrast: ThemeOverrides = {
+  background: { type: 'solid', color: '#000000' },
+  text: { headingColor: '#ffff00', bodyColor: '#ffffff', accentColor: '#ffffff' },
+  starship: { color: '#0066ff', glowColor: '#ffff00' },
+  laser: { color: '#ffff00', glowColor: '#ffff00' },
+  crystal: { color: '#0066ff', lightColor: '#66a3ff', glowColor: '#ffff00', closeColor: '#ff0000' },
+  table: {
+    headerColor: '#000000',
+    rowColor: '#000000',
+    borderColor: '#ffffff',
+    textColor: '#ffffff',
+    headerTextColor: '#ffff00',
+  },
+  hud: {
+    backgroundColor: '#000000',
+    labelColor: '#ffffff',
+    textColor: '#ffffff',
+    scoreColor: '#ffff00',
+    hiScoreColor: '#ffff00',
+    crystalColor: '#00ffff',
+    livesColor: '#ff3333',
+    shipColor: '#0066ff',
+  },
+  code: {
+    color: '#ffffff',
+    backgroundColor: '#000000',
+    borderColor: '#ffffff',
+    keywordColor: '#ffff00',
+    stringColor: '#00ff00',
+    numberColor: '#00ffff',
+    commentColor: '#bbbbbb',
+    typeColor: '#ff9900',
+    functionColor: '#ff66ff',
+    keyColor: '#00ffff',
+    variableColor: '#ff9900',
+    punctuationColor: '#ffffff',
+  },
+};
+
+// Green phosphor terminal
+const retro: ThemeOverrides = {
+  background: { type: 'grid', color: '#020a02', tint: '#0f3f0f' },
+  text: { headingColor: '#33ff33', bodyColor: '#22cc22', accentColor: '#99ff99' },
+  starship: { color: '#1f7a1f', glowColor: '#33ff33' },
+  laser: { color: '#33ff33', glowColor: '#33ff33' },
+  crystal: { color: '#1f7a1f', lightColor: '#2fb82f', glowColor: '#66ff66', closeColor: '#ffb000' },
+  table: {
+    headerColor: '#0f3f0f',
+    rowColor: '#041404',
+    borderColor: '#33ff33',
+    textColor: '#22cc22',
+    headerTextColor: '#99ff99',
+  },
+  hud: {
+    backgroundColor: '#020a02',
+    labelColor: '#1f7a1f',
+    textColor: '#33ff33',
+    scoreColor: '#ffb000',
+    hiScoreColor: '#ffb000',
+    crystalColor: '#33ff33',
+    livesColor: '#ffb000',
+    shipColor: '#1f7a1f',
+  },
+  code: {
+    color: '#33ff33',
+    backgroundColor: '#020a02',
+    borderColor: '#33ff33',
+    keywordColor: '#99ff99',
+    stringColor: '#ffb000',
+    numberColor: '#ffb000',
+    commentColor: '#1f7a1f',
+    typeColor: '#99ff99',
+    functionColor: '#66ff66',
+    keyColor: '#99ff99',
+    variableColor: '#ffb000',
+    punctuationColor: '#22cc22',
+  },
+  fonts: { heading: 'monospace', body: 'monospace' },
+  audio: { score: 'coin' },
+};
+
+export const themePresets: Record<string, ThemeOverrides> = {
+  space,
+  light,
+  'high-contrast': highContrast,
+  retro,
+};
+
+// Apply the deck's preset with the deck's own theme overrides on top. A preset
+// picked with T during the talk replaces the deck's look instead (a dark deck
+// background under the light preset's dark text would be unreadable); only
+// the deck's motion setting carries over, since calm mode is for the audience.
+export function applyThemePreset(name: string | undefined, overrides: ThemeOverrides, picked: string | null = null): void {
+  if (picked) {
+    applyThemeOverrides(themePresets[picked] ?? {}, { motion: overrides.motion ?? {} });
+    return;
+  }
+
+  const preset = name ? themePresets[name] : undefined;
+  if (name && !preset) {
+    console.warn(`Unknown theme "${name}". Use one of: ${Object.keys(themePresets).join(', ')}`);
+  }
+  applyThemeOverrides(preset ?? {}, overrides);
+}
@@ -0,0 +1,184 @@
+import Phaser from 'phaser';
+import type { TransitionContext, TransitionEffect } from './TransitionRegistry';
+import { theme } from '../../theme.config';
+import { parseHexColor } from '../utils/color';
+
+// Screen-space overlay above the slide content, below the HUD (1000)
+function createOverlay(context: TransitionContext): Phaser.GameObjects.Graphics {
+  const overlay = context.scene.add.graphics();
+  overlay.setScrollFactor(0);
+  overlay.setDepth(950);
+  return overlay;
+}
+
+// Run an effect over 0..1 and swap slides at the halfway point, when the
+// overlay hides the screen
+function runOverlayEffect(
+  context: TransitionContext,
+  duration: number,
+  draw: (overlay: Phaser.GameObjects.Graphics, t: number) => void
+): void {
+  const overlay = createOverlay(context);
+  let swapped = false;
+
+  context.scene.tweens.addCounter({
+    from: 0,
+    to: 1,
+    duration,
+    onUpdate: (tween) => {
+      const t = tween.getValue() ?? 0;
+      overlay.clear();
+      draw(overlay, t);
+      context.progress(Math.min(1, t * 2));
+      if (!swapped && t >= 0.5) {
+        swapped = true;
+        context.swap();
+      }
+    },
+    onComplete: () => {
+      overlay.destroy();
+      if (!swapped) context.swap();
+    },
+  });
+}
+
+// Camera pans over to the target's room - the original Slide Ship transition.
+// Longer jumps sweep through every room in between.
+const slide: TransitionEffect = (context) => {
+  const { scene, camera, direction, axis, distance, duration } = context;
+  const offset = (axis === 'vertical' ? context.height : context.width) * direction * distance;
+  const clearRooms = context.showPassingRooms();
+
+  scene.tweens.add({
+    targets: camera,
+    ...(axis === 'vertical' ? { scrollY: offset } : { scrollX: offset }),
+    duration,
+    ease: 'Cubic.easeInOut',
+    onUpdate: (tween) => context.progress(tween.progress),
+    onComplete: () => {
+      clearRooms();
+      camera.setScroll(0, 0);
+      context.swap();
+    },
+  });
+};
+
+const fade: TransitionEffect = (context) => {
+  const { camera, duration } = context;
+  camera.once(Phaser.Cameras.Scene2D.Events.FADE_OUT_COMPLETE, () => {
+    context.progress(1);
+    context.swap();
+    camera.fadeIn(duration / 2);
+  });
+  camera.fadeOut(duration / 2);
+};
+
+const cut: TransitionEffect = (context) => {
+  context.progress(1);
+  context.swap();
+};
+
+// Zoom into the old slide and out of the new one (reversed when going back)
+const zoom: TransitionEffect = (context) => {
+  const { scene, camera, direction, duration } = context;
+  const half = duration / 2;
+  const near = 3;
+  const far = 0.3;
+
+  camera.fadeOut(half);
+  scene.tweens.add({
+    targets: camera,
+    zoom: direction > 0 ? near : far,
+    duration: half,
+    ease: 'Cubic.easeIn',
+    onUpdate: (tween) => context.progress(tween.progress),
+    onComplete: () => {
+      camera.setZoom(direction > 0 ? far : near);
+      context.swap();
+      camera.fadeIn(half);
+      scene.tweens.add({
+        targets: camera,
+        zoom: 1,
+        duration: half,
+        ease: 'Cubic.easeOut',
+      });
+    },
+  });
+};
+
+// Stars stretch into streaks racing out from the center, then settle again
+const warp: TransitionEffect = (context) => {
+  const { width, height, direction } = context;
+  const cx = width / 2;
+  const cy = height / 2;
+  const maxRadius = Math.hypot(cx, cy);
+  const background = parseHexColor(theme.background.color);
+  const colors = [0xffffff, parseHexColor(theme.starship.glowColor), parseHexColor(theme.text.headingColor)];
+
+  const stars = Array.from({ length: 160 }, () => ({
+    angle: Math.random() * Math.PI * 2,
+    offset: Math.random(),
+    speed: 0.5 + Math.random(),
+    color: colors[Math.floor(Math.random() * colors.length)],
+  }));
+
+  runOverlayEffect(context, Math.max(context.duration, 900), (overlay, t) => {
+    const intensity = Math.sin(t * Math.PI);
+    overlay.fillStyle(background, Math.min(1, intensity * 1.4));
+    overlay.fillRect(0, 0, width, height);
+
+    // Backwards travel pulls the streaks in towards the center
+    const travel = direction > 0 ? t : 1 - t;
+    for (const star of stars) {
+      const r = ((star.offset + travel * 2 * star.speed) % 1) * maxRadius;
+      const length = 4 + intensity * 260 * star.speed * (r / maxRadius);
+      const cos = Math.cos(star.angle);
+      const sin = Math.sin(star.angle);
+      overlay.lineStyle(1 + intensity * 2, star.color, intensity);
+      overlay.lineBetween(cx + cos * r, cy + sin * r, cx + cos * (r + length), cy + sin * (r + length));
+    }
+  });
+};
+
+// Rotating hexagon rings rushing past, like flying down a tunnel
+const hyperspace: TransitionEffect = (context) => {
+  const { camera, width, height, direction } = context;
+  const cx = width / 2;
+  const cy = height / 2;
+  const maxRadius = Math.hypot(cx, cy) * 1.2;
+  const background = parseHexColor(theme.background.color);
+  const colors = [parseHexColor(theme.starship.color), parseHexColor(theme.text.headingColor)];
+  const RINGS = 14;
+  const duration = Math.max(context.duration, 1000);
+
+  camera.shake(duration, 0.004);
+  runOverlayEffect(context, duration, (overlay, t) => {
+    const intensity = Math.sin(t * Math.PI);
+    overlay.fillStyle(background, Math.min(1, intensity * 1.4));
+    overlay.fillRect(0, 0, width, height);
+
+    for (let i = 0; i < RINGS; i++) {
+      // Depth along the tunnel; squaring gives a perspective feel
+      const depth = (((i / RINGS + t * 3 * direction) % 1) + 1) % 1;
+      const radius = depth * depth * maxRadius;
+      const rotation = t * Math.PI * 2 + i * 0.25;
+
+      const points: Phaser.Math.Vector2[] = [];
+      for (let side = 0; side < 6; side++) {
+        const angle = rotation + (side * Math.PI) / 3;
+        points.push(new Phaser.Math.Vector2(cx + Math.cos(angle) * radius, cy + Math.sin(angle) * radius));
+      }
+      overlay.lineStyle(1 + depth * 6, colors[i % colors.length], intensity * (0.3 + depth * 0.7));
+      overlay.strokePoints(points, true);
+    }
+  });
+};
+
+export const builtInTransitions: Record<string, TransitionEffect> = {
+  slide,
+  fade,
+  cut,
+  zoom,
+  warp,
+  hyperspace,
+};
@@ -0,0 +1,46 @@
+import Phaser from 'phaser';
+import { builtInTransitions } from './BuiltInTransitions';
+
+// Everything an effect needs to move from one slide to the next
+export interface TransitionContext {
+  scene: Phaser.Scene;
+  camera: Phaser.Cameras.Scene2D.Camera;
+  direction: 1 | -1;                  // 1 = forward/down, -1 = back/up
+  axis: 'horizontal' | 'vertical';    // Vertical for moves within a stack of sub-slides
+  distance: number;                   // Number of slides between the two, 1 for neighbours
+  duration: number;                   // Suggested duration in ms
+  width: number;                      // Room size
+  height: number;
+  // Call once the old slide is out of view; builds the new slide. The camera
+  // scroll must be back at 0 by then - fading or zooming back in may go on after.
+  swap: () => void;
+  // Optional 0..1 progress for effects that sweep past intermediate slides
+  progress: (t: number) => void;
+  // For effects that pan the camera: draws plain copies of the slides passed
+  // on the way, and the target, each in its room along the axis (room 1 is
+  // next to the current one, room `distance` holds the target). Returns a
+  // function that removes them again.
+  showPassingRooms: () => () => void;
+}
+
+// A transition runs its effect and calls context.swap() exactly once
+export type TransitionEffect = (context: TransitionContext) => void;
+
+const transitions = new Map<string, TransitionEffect>(Object.entries(builtInTransitions));
+
+// Add or replace a transition; slides pick it with <!-- slide: transition=name -->
+export function registerTransition(name: string, effect: TransitionEffect): void {
+  transitions.set(name, effect);
+}
+
+export function getTransition(name: string): TransitionEffect | undefined {
+  return transitions.get(name);
+}
+
+export function hasTransition(name: string): boolean {
+  return transitions.has(name);
+}
+
+export function getTransitionNames(): string[] {
+  return [...transitions.keys()];
+}
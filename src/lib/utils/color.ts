@@ -0,0 +1,15 @@
+// Theme colors are CSS hex strings; Phaser graphics want numbers
+
+// "#326ce5" -> 0x326ce5, "#fff" -> 0xffffff (alpha digits are ignored)
+export function parseHexColor(hex: string): number {
+  let digits = hex.trim().replace(/^#/, '');
+  if (digits.length === 3 || digits.length === 4) {
+    digits = [...digits.slice(0, 3)].map((digit) => digit + digit).join('');
+  }
+  return parseInt(digits.slice(0, 6), 16);
+}
+
+// 0x326ce5 -> "#326ce5"
+export function toHexString(color: number): string {
+  return `#${color.toString(16).padStart(6, '0')}`;
+}
@@ -0,0 +1,4 @@
+// Remove the {b}/{i} tags the parser puts in for **bold** and *italic*
+export function stripRichText(content: string): string {
+  return content.replace(/\{\/?[bi]\}/g, '');
+}
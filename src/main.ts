@@ -1,5 +1,7 @@
 import Phaser from 'phaser';
 import { RoomScene } from './lib/scenes/RoomScene';
+import { PresenterChannel } from './lib/presenter/PresenterChannel';
+import { PresenterConsole } from './lib/presenter/PresenterConsole';
 import { theme } from './theme.config';
 
 const config: Phaser.Types.Core.GameConfig = {
@@ -17,4 +19,9 @@ const config: Phaser.Types.Core.GameConfig = {
   scene: [RoomScene],
 };
 
-new Phaser.Game(config);
+// ?presenter opens the presenter console instead of the game
+if (PresenterChannel.isPresenterWindow()) {
+  new PresenterConsole(document.body);
+} else {
+  new Phaser.Game(config);
+}
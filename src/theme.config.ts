@@ -1,12 +1,26 @@
 // Slide Ship Theme Configuration
 // Customize the look and feel of your presentation
 
+// Kinds of slide text with their own typography; h4 covers levels 4-6
+export type TypographyElement = 'h1' | 'h2' | 'h3' | 'h4' | 'paragraph' | 'list' | 'code' | 'table';
+
+export interface TypographyStyle {
+  font: string;        // 'heading', 'body' or 'code' from `fonts`, or any font family
+  size: number;        // Font size in px
+  lineHeight: number;  // Distance from one line to the next in px
+}
+
 export interface ThemeConfig {
   // Background settings
   background: {
-    type: 'stars' | 'grid' | 'solid';
+    // Built-in: stars, parallax, nebula, grid, hexmesh, image, solid - or a
+    // name added with registerBackground()
+    type: string;
     color: string;
     starCount?: number;
+    tint?: string;        // Line and glow color for grid, nebula and hexmesh
+    image?: string;       // Picture or video for the image background, e.g. '/images/bg.jpg'
+    videoSound?: boolean; // Play a video background's sound (ducks the music)
   };
 
   // Text styling
@@ -27,8 +41,93 @@ export interface ThemeConfig {
     color: string;
     glowColor: string;
   };
+
+  // Crystal pods and the images they reveal
+  crystal: {
+    color: string;        // Pod body, emblem and image glow
+    lightColor: string;   // Facets and inner emblem
+    glowColor: string;    // Core glow, shatter burst and sparks
+    closeColor: string;   // Close button on a revealed image
+  };
+
+  // Markdown tables
+  table: {
+    headerColor: string;      // Header row background
+    rowColor: string;         // Body row background
+    borderColor: string;
+    textColor: string;
+    headerTextColor: string;
+  };
+
+  // Arcade HUD bar
+  hud: {
+    backgroundColor: string;
+    labelColor: string;   // Small captions (SOUND, LEVEL)
+    textColor: string;    // Slide counter, volume
+    scoreColor: string;
+    hiScoreColor: string;
+    crystalColor: string; // Shattered crystal counter
+    livesColor: string;   // LIVES label and MUTE
+    shipColor: string;    // Life icons
+  };
+
+  // Code blocks: a framed panel with syntax-colored tokens
+  code: {
+    color: string;             // Plain text, and code without a known language
+    backgroundColor: string;
+    borderColor: string;
+    keywordColor: string;
+    stringColor: string;       // Also unquoted YAML values
+    numberColor: string;
+    commentColor: string;      // Also the language label
+    typeColor: string;
+    functionColor: string;     // Also the command in shell lines
+    keyColor: string;          // YAML/JSON keys, shell flags
+    variableColor: string;     // $VARS, YAML anchors and tags
+    punctuationColor: string;
+  };
+
+  // Font families
+  fonts: {
+    heading: string;
+    body: string;
+    code: string;
+  };
+
+  // Font files by family name, loaded before the first slide is laid out so
+  // text is measured in the right font. Paths are relative to public/.
+  fontFiles: Record<string, string>;
+
+  // Font, size and line height for each kind of slide text
+  typography: Record<TypographyElement, TypographyStyle>;
+
+  // Sound for each game event: a built-in preset (laser, blip, shatter, reform,
+  // whoosh, coin, click, chime, none) or a file in public/sounds, e.g. 'click.wav'
+  audio: {
+    laser: string;      // Ship fires
+    textHit: string;    // Laser hits text
+    shatter: string;    // Crystal breaks open
+    reform: string;     // Crystal closes again
+    transition: string; // Moving to another slide
+    score: string;      // Points scored
+  };
+
+  // Animation settings
+  motion: {
+    // Calm mode turns off decorative animations and uses cut transitions.
+    // 'auto' follows the system's reduced-motion setting.
+    calm: boolean | 'auto';
+  };
 }
 
+// Partial theme, e.g. from a deck's front matter. Nested groups such as
+// typography.h1 can be partial too.
+export type ThemeOverrides = {
+  [K in keyof ThemeConfig]?: {
+    [P in keyof ThemeConfig[K]]?: ThemeConfig[K][P] extends object ? Partial<ThemeConfig[K][P]> : ThemeConfig[K][P];
+  };
+};
+
 // Default space theme
 export const theme: ThemeConfig = {
   background: {
@@ -49,6 +148,133 @@ export const theme: ThemeConfig = {
     color: '#00ffff',
     glowColor: '#00ffff',
   },
+  crystal: {
+    color: '#326ce5',
+    lightColor: '#4a8ff7',
+    glowColor: '#00ffff',
+    closeColor: '#ff4444',
+  },
+  table: {
+    headerColor: '#1a4a7a',
+    rowColor: '#0a1a2a',
+    borderColor: '#326ce5',
+    textColor: '#aaccff',
+    headerTextColor: '#ffffff',
+  },
+  hud: {
+    backgroundColor: '#0a0a1a',
+    labelColor: '#888888',
+    textColor: '#ffffff',
+    scoreColor: '#ffff00',
+    hiScoreColor: '#ff6600',
+    crystalColor: '#00ffff',
+    livesColor: '#ff4444',
+    shipColor: '#326ce5',
+  },
+  code: {
+    color: '#d4d4d4',
+    backgroundColor: '#0d1117',
+    borderColor: '#326ce5',
+    keywordColor: '#ff7b72',
+    stringColor: '#a5d6ff',
+    numberColor: '#79c0ff',
+    commentColor: '#8b949e',
+    typeColor: '#ffa657',
+    functionColor: '#d2a8ff',
+    keyColor: '#7ee787',
+    variableColor: '#ffa657',
+    punctuationColor: '#9da5b4',
+  },
+  fonts: {
+    heading: 'Orbitron',
+    body: 'Revalia',
+    code: 'monospace',
+  },
+  fontFiles: {
+    Orbitron: 'fonts/Orbitron.woff2',
+    Revalia: 'fonts/Revalia.woff2',
+  },
+  typography: {
+    h1: { font: 'heading', size: 56, lineHeight: 70 },
+    h2: { font: 'heading', size: 40, lineHeight: 50 },
+    h3: { font: 'heading', size: 32, lineHeight: 40 },
+    h4: { font: 'code', size: 28, lineHeight: 40 },
+    paragraph: { font: 'body', size: 24, lineHeight: 35 },
+    list: { font: 'body', size: 24, lineHeight: 35 },
+    code: { font: 'code', size: 20, lineHeight: 24 },
+    table: { font: 'body', size: 20, lineHeight: 40 },
+  },
+  audio: {
+    laser: 'laser',
+    textHit: 'blip',
+    shatter: 'shatter',
+    reform: 'reform',
+    transition: 'none',
+    score: 'none',
+  },
+  motion: {
+    calm: 'auto',
+  },
 };
 
+// Snapshot of the defaults above, so overrides can be reapplied on hot reload
+const defaultTheme: ThemeConfig = JSON.parse(JSON.stringify(theme));
+
+const themeListeners: (() => void)[] = [];
+
+// Reset the theme to its defaults and apply overrides in place, later layers
+// winning (e.g. a preset, then the deck's own settings). Sprites read `theme`
+// when they are created, so new slides pick up the change; long-lived ones
+// like the HUD redraw through onThemeChange.
+export function applyThemeOverrides(...layers: ThemeOverrides[]): void {
+  for (const key of Object.keys(defaultTheme) as (keyof ThemeConfig)[]) {
+    const section = theme[key] as Record<string, unknown>;
+    const merged = JSON.parse(JSON.stringify(defaultTheme[key])) as Record<string, unknown>;
+    for (const layer of layers) {
+      for (const [name, value] of Object.entries(layer[key] ?? {})) {
+        const base = merged[name];
+        merged[name] = isGroup(base) && isGroup(value) ? { ...base, ...value } : value;
+      }
+    }
+
+    // Start from a clean copy, so settings removed from the deck go away on hot reload
+    for (const name of Object.keys(section)) delete section[name];
+    Object.assign(section, merged);
+  }
+  themeListeners.forEach((listener) => listener());
+}
+
+// Called after every applyThemeOverrides; returns a function that unsubscribes
+export function onThemeChange(listener: () => void): () => void {
+  themeListeners.push(listener);
+  return () => {
+    const index = themeListeners.indexOf(listener);
+    if (index >= 0) themeListeners.splice(index, 1);
+  };
+}
+
+function isGroup(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+// Family for a typography `font`: a role from `fonts` or a family name as-is
+export function resolveFont(font: string): string {
+  return font in theme.fonts ? theme.fonts[font as keyof ThemeConfig['fonts']] : font;
+}
+
+// Whether calm mode is on. Sprites check this when they start animating, so a
+// change to the system setting applies to the next slide.
+export function isCalmMode(): boolean {
+  if (theme.motion.calm === 'auto') {
+    return window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+  }
+  return theme.motion.calm;
+}
+
+// Duration for a one-off animation (zooms, fades, the ship entering a portal):
+// zero in calm mode, so it jumps straight to the end
+export function motionDuration(ms: number): number {
+  return isCalmMode() ? 0 : ms;
+}
+
 export default theme;
@@ -1,4 +1,5 @@
 import { defineConfig } from 'vite';
+import { remoteRelay } from './server/remoteRelay';
 
 // For GitHub Pages: Set to your repo name (e.g., '/my-presentation/')
 // For custom domain: Set to './' or '/'
@@ -8,6 +9,10 @@ const BASE_PATH = process.env.GITHUB_PAGES === 'true'
 
 export default defineConfig({
   base: BASE_PATH,
+  plugins: [
+    // WebSocket relay and phone clicker page at /remote (dev server only)
+    remoteRelay(),
+  ],
   build: {
     outDir: 'dist',
     assetsDir: 'assets',